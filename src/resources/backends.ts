@@ -0,0 +1,23 @@
+/**
+ * Backend Status Resource
+ *
+ * A read-only resource reporting the health of each inference backend, so
+ * operators can see which endpoints are serving requests and which have
+ * their circuit open.
+ */
+
+import { ResourceDefinition } from '../types/index.js';
+import { SeaLionClient } from '../services/sealionClient.js';
+
+/**
+ * Create the backend status resource definition
+ */
+export function createBackendStatusResource(client: SeaLionClient): ResourceDefinition {
+  return {
+    uri: 'sealion://backends',
+    name: 'Inference backends',
+    description: 'Inference backends in failover order, with their circuit breaker state, request and failure counts and last error',
+    mimeType: 'application/json',
+    read: async () => JSON.stringify({ backends: client.getBackendStatus() }, null, 2)
+  };
+}
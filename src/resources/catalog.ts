@@ -0,0 +1,64 @@
+/**
+ * Catalog Resources
+ *
+ * Read-only resources describing the languages, countries, models and
+ * analysis types the tools accept, so clients can discover them without
+ * parsing tool descriptions. Each read builds them from the same lists as
+ * the tools' input schemas.
+ */
+
+import {
+  ResourceDefinition,
+  SupportedLanguages,
+  Languages,
+  SeaCountries,
+  Countries,
+  CulturalAnalysisTypes,
+  AnalysisTypes
+} from '../types/index.js';
+import { modelRegistry } from '../services/modelRegistry.js';
+
+/**
+ * Create the catalog resource definitions
+ */
+export function createCatalogResources(): ResourceDefinition[] {
+  return [
+    createJsonResource(
+      'sealion://languages',
+      'Supported languages',
+      'Languages accepted by the translation tools, with ISO 639 codes, native names and ISO 15924 scripts',
+      () => ({ languages: SupportedLanguages.map(id => ({ id, ...Languages[id] })) })
+    ),
+    createJsonResource(
+      'sealion://countries',
+      'Southeast Asian countries',
+      'Countries accepted by sealion_cultural_analysis, with ISO 3166-1 codes and their supported languages',
+      () => ({ countries: SeaCountries.map(id => ({ id, ...Countries[id] })) })
+    ),
+    createJsonResource(
+      'sealion://models',
+      'Sea-lion models',
+      'Models in the model registry, with the aliases the tools accept for each, their capabilities and availability',
+      () => ({ models: modelRegistry.list() })
+    ),
+    createJsonResource(
+      'sealion://analysis-types',
+      'Cultural analysis types',
+      'Analysis types accepted by sealion_cultural_analysis',
+      () => ({ analysis_types: CulturalAnalysisTypes.map(id => ({ id, ...AnalysisTypes[id] })) })
+    )
+  ];
+}
+
+/**
+ * Create a resource serving JSON content built on each read
+ */
+function createJsonResource(uri: string, name: string, description: string, getContent: () => unknown): ResourceDefinition {
+  return {
+    uri,
+    name,
+    description,
+    mimeType: 'application/json',
+    read: async () => JSON.stringify(getContent(), null, 2)
+  };
+}
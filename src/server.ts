@@ -9,30 +9,137 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { 
+  CallToolRequest,
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequest,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
-  McpError
+  McpError,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  ServerRequest
 } from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { randomUUID } from 'node:crypto';
 import { z } from 'zod';
 
 import { SeaLionClient } from './services/sealionClient.js';
+import { AuthorizedClient, ClientAuthenticator } from './services/clientAuth.js';
+import { ConversationStore } from './services/conversationStore.js';
+import { GlossaryStore } from './services/glossary.js';
+import { TranslationMemory } from './services/translationMemory.js';
+import { PromptTemplateStore } from './services/promptTemplates.js';
+import { ToolPromptStore } from './services/toolPrompts.js';
+import { modelRegistry } from './services/modelRegistry.js';
+import { RateLimitPolicy, RateLimitExceededError } from './services/rateLimitPolicy.js';
+import {
+  SeaLionError,
+  SeaLionAuthError,
+  SeaLionRateLimitError,
+  SeaLionUpstreamError,
+  SeaLionTimeoutError,
+  SeaLionEmptyContentError,
+  findSeaLionError
+} from './services/sealionErrors.js';
 import { createTextGenerationTool } from './tools/textGeneration.js';
-import { createTranslationTool } from './tools/translation.js';
-import { createCulturalAnalysisTool } from './tools/culturalAnalysis.js';
+import {
+  createTranslationTool,
+  createTranslationBatchTool,
+  createDocumentTranslationTool,
+  createLocalizationPrompt
+} from './tools/translation.js';
+import { createTmSearchTool, createTmAddTool, createTmImportTool, createTmExportTool } from './tools/translationMemory.js';
+import { createCulturalAnalysisTool, createCulturalReviewPrompt } from './tools/culturalAnalysis.js';
+import { createLanguageDetectionTool } from './tools/languageDetection.js';
+import { createPiiDetectionTool } from './tools/piiDetection.js';
+import {
+  createChatTool,
+  createListConversationsTool,
+  createGetConversationTool,
+  createClearConversationTool
+} from './tools/chat.js';
+import { createCatalogResources } from './resources/catalog.js';
+import { createBackendStatusResource } from './resources/backends.js';
 import { logger } from './utils/logger.js';
-import { RateLimiter } from './utils/rateLimiter.js';
-import { ToolDefinition, SeaLionModel } from './types/index.js';
+import { ServerConfig, RateLimitMode, getServerConfig } from './utils/config.js';
+import { zodToJsonSchema } from './utils/jsonSchema.js';
+import { sanitizeArgs, InputRejectedError } from './utils/sanitization.js';
+import { startHttpTransport } from './transports/httpTransport.js';
+import {
+  ToolDefinition,
+  ResourceDefinition,
+  PromptDefinition,
+  ToolContext,
+  ToolContentBlock,
+  ToolProgress,
+  ToolResultMetadata,
+  SeaLionErrorCode
+} from './types/index.js';
+
+// Minimum interval between progress notifications for a single request
+const PROGRESS_INTERVAL_MS = 250;
+
+interface ProgressReporter {
+  report: (update: ToolProgress) => Promise<void>;
+  /**
+   * Send the update held back by the throttle, if any
+   */
+  flush: () => Promise<void>;
+}
 
 export class SeaLionMCPServer {
-  private server: Server;
+  private config: ServerConfig;
   private sealionClient: SeaLionClient;
-  private rateLimiter: RateLimiter;
+  private rateLimits: RateLimitPolicy;
+  private authenticator?: ClientAuthenticator;
   private tools: Map<string, ToolDefinition>;
+  private resources: Map<string, ResourceDefinition>;
+  private prompts: Map<string, PromptDefinition>;
+  private promptTemplates: PromptTemplateStore;
+  private toolPrompts: ToolPromptStore;
+
+  constructor(config: ServerConfig = getServerConfig()) {
+    this.config = config;
+
+    // Initialize services shared by every session
+    this.sealionClient = new SeaLionClient();
+    this.rateLimits = new RateLimitPolicy({
+      global: { maxRequests: config.rateLimit.maxRequests, windowMs: config.rateLimit.windowMs },
+      ...(config.rateLimit.sessionMaxRequests && {
+        session: { maxRequests: config.rateLimit.sessionMaxRequests, windowMs: config.rateLimit.sessionWindowMs }
+      }),
+      queueSize: config.rateLimit.queueSize,
+      maxWaitMs: config.rateLimit.maxWaitMs,
+      defaultMode: config.rateLimit.mode
+    });
+    if (config.authKeysFile) {
+      this.authenticator = ClientAuthenticator.fromFile(config.authKeysFile);
+    }
+    this.tools = new Map();
+    this.resources = new Map();
+    this.prompts = new Map();
+    this.promptTemplates = new PromptTemplateStore(config.promptDir);
+    this.toolPrompts = new ToolPromptStore(config.toolPrompts.path);
+    if (config.models.file) {
+      modelRegistry.configure(config.models.file);
+    }
+
+    this.setupTools();
+    this.setupResources();
+    this.setupPrompts();
+  }
 
-  constructor() {
+  /**
+   * Create an MCP server instance with handlers attached
+   *
+   * Stdio mode uses a single instance; HTTP mode creates one per session.
+   */
+  private createServer(): Server {
     // Initialize the MCP server with metadata
-    this.server = new Server(
+    const server = new Server(
       {
         name: 'sea-lionmcp',
         version: '1.0.0',
@@ -40,28 +147,40 @@ export class SeaLionMCPServer {
       },
       {
         capabilities: {
-          tools: {}
+          tools: {},
+          resources: {},
+          prompts: {}
         }
       }
     );
 
-    // Initialize services
-    this.sealionClient = new SeaLionClient();
-    this.rateLimiter = new RateLimiter(10, 60000); // 10 requests per minute
-    this.tools = new Map();
-
-    this.setupTools();
-    this.setupHandlers();
+    this.setupHandlers(server);
+    return server;
   }
 
   /**
    * Set up available tools for the MCP server
    */
   private setupTools(): void {
+    const conversations = new ConversationStore(this.config.conversation);
+    const glossaries = new GlossaryStore(this.config.glossaryDir);
+    const memory = new TranslationMemory(this.config.translationMemory.file, this.config.translationMemory);
     const tools = [
       createTextGenerationTool(),
-      createTranslationTool(),
-      createCulturalAnalysisTool()
+      createTranslationTool(glossaries, memory, this.toolPrompts),
+      createTranslationBatchTool(glossaries, this.toolPrompts),
+      createDocumentTranslationTool(glossaries, this.toolPrompts),
+      createTmSearchTool(memory),
+      createTmAddTool(memory),
+      createTmImportTool(memory),
+      createTmExportTool(memory),
+      createLanguageDetectionTool(),
+      createPiiDetectionTool(),
+      createCulturalAnalysisTool(this.toolPrompts),
+      createChatTool(conversations),
+      createListConversationsTool(conversations),
+      createGetConversationTool(conversations),
+      createClearConversationTool(conversations)
     ];
 
     for (const tool of tools) {
@@ -71,124 +190,454 @@ export class SeaLionMCPServer {
     logger.info(`Registered ${this.tools.size} tools:`, Array.from(this.tools.keys()));
   }
 
+  /**
+   * Set up read-only resources for the MCP server
+   */
+  private setupResources(): void {
+    for (const resource of [...createCatalogResources(), createBackendStatusResource(this.sealionClient)]) {
+      this.resources.set(resource.uri, resource);
+    }
+
+    logger.info(`Registered ${this.resources.size} resources:`, Array.from(this.resources.keys()));
+  }
+
+  /**
+   * Set up built-in prompts for the MCP server
+   *
+   * Templates from the prompt directory are loaded on each request instead,
+   * so they can be added or edited while the server runs.
+   */
+  private setupPrompts(): void {
+    for (const prompt of [createCulturalReviewPrompt(this.toolPrompts), createLocalizationPrompt(this.toolPrompts)]) {
+      this.prompts.set(prompt.name, prompt);
+    }
+
+    logger.info(`Registered ${this.prompts.size} built-in prompts:`, Array.from(this.prompts.keys()));
+  }
+
   /**
    * Set up MCP protocol handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Handle tool listing requests
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const toolList = Array.from(this.tools.values()).map(tool => ({
-        name: tool.name,
-        description: tool.description,
-        inputSchema: this.convertZodToJsonSchema(tool.inputSchema)
-      }));
+    server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+      const client = this.authenticateClient(extra);
+
+      // Hide tools the client is not allowed to call
+      const toolList = Array.from(this.tools.values())
+        .filter(tool => !client || client.canUseTool(tool.name))
+        .map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: this.convertZodToJsonSchema(tool.inputSchema),
+          ...(tool.outputSchema && { outputSchema: this.convertZodToJsonSchema(tool.outputSchema) })
+        }));
 
       logger.debug('Listing tools:', toolList.map(t => t.name));
       return { tools: toolList };
     });
 
     // Handle tool execution requests
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) =>
+      logger.runWithContext({ requestId: randomUUID(), tool: request.params.name }, () => this.callTool(request, extra))
+    );
 
-      logger.info(`Executing tool: ${name}`);
-      
-      // Check rate limiting first
-      if (!this.rateLimiter.allowRequest()) {
+    // Handle prompt listing requests
+    server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+      this.authenticateClient(extra);
+
+      // Built-in prompts take precedence over templates of the same name
+      const prompts = [
+        ...this.prompts.values(),
+        ...this.promptTemplates.list().filter(prompt => !this.prompts.has(prompt.name))
+      ];
+
+      const promptList = prompts.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: this.describePromptArguments(prompt.argumentsSchema)
+      }));
+
+      logger.debug('Listing prompts:', promptList.map(p => p.name));
+      return { prompts: promptList };
+    });
+
+    // Handle prompt rendering requests
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      this.authenticateClient(extra);
+      return this.getPrompt(request);
+    });
+
+    // Handle resource listing requests
+    server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+      this.authenticateClient(extra);
+
+      const resourceList = Array.from(this.resources.values()).map(resource => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType
+      }));
+
+      return { resources: resourceList };
+    });
+
+    // Handle resource read requests
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      this.authenticateClient(extra);
+
+      const { uri } = request.params;
+      const resource = this.resources.get(uri);
+      if (!resource) {
         throw new McpError(
-          ErrorCode.InternalError,
-          'Rate limit exceeded. Please wait before making another request.'
+          ErrorCode.InvalidParams,
+          `Unknown resource: ${uri}`
         );
       }
 
-      // Validate tool name exists
-      const tool = this.tools.get(name);
-      if (!tool) {
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${name}`
-        );
+      logger.debug(`Reading resource: ${uri}`);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: resource.mimeType,
+            text: await resource.read()
+          }
+        ]
+      };
+    });
+  }
+
+  /**
+   * Authenticate, validate and rate limit a tool call, then run the tool
+   */
+  private async callTool(
+    request: CallToolRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ) {
+    const { name, arguments: args } = request.params;
+
+    logger.info(`Executing tool: ${name}`);
+
+    // Authenticate the client and check its tool scope
+    const client = this.authenticateClient(extra);
+    if (client && !client.canUseTool(name)) {
+      logger.warn('Rejected tool call outside client scope', { client: client.name, tool: name });
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Tool not permitted for this client: ${name}`
+      );
+    }
+
+    // Validate tool name exists
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(
+        ErrorCode.MethodNotFound,
+        `Unknown tool: ${name}`
+      );
+    }
+
+    // Validate arguments are provided
+    if (!args || typeof args !== 'object') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Tool arguments are required and must be an object'
+      );
+    }
+
+    try {
+      // Validate input arguments with schema
+      const validatedArgs = tool.inputSchema.parse(args);
+
+      // Sanitize input according to the tool's field policy
+      const { args: sanitizedArgs, findings } = sanitizeArgs(validatedArgs, tool.sanitization, this.config.promptInjection);
+      if (findings.length > 0) {
+        logger.warn('Possible prompt injection in tool arguments', { findings });
       }
 
-      // Validate arguments are provided
-      if (!args || typeof args !== 'object') {
+      // Apply rate limits, weighted by the cost of this call
+      const owner = client ? `client:${client.name}` : extra.sessionId ? `session:${extra.sessionId}` : 'local';
+      await this.rateLimits.acquire({
+        cost: tool.cost ? tool.cost(validatedArgs) : 1,
+        owner,
+        clientLimiter: client?.rateLimiter,
+        mode: this.getRateLimitMode(request),
+        signal: extra.signal
+      });
+      
+      // Execute the tool with sanitized input
+      const metadata: ToolResultMetadata = {
+        ...(findings.length > 0 && { prompt_injection: findings })
+      };
+      const extraContent: ToolContentBlock[] = [];
+      const progress = this.createProgressReporter(request, extra);
+      const context: ToolContext = {
+        metadata,
+        extraContent,
+        onProgress: progress?.report,
+        owner,
+        client: client?.name
+      };
+      let result: string;
+      try {
+        result = await tool.handler(sanitizedArgs, this.sealionClient, context);
+      } finally {
+        await progress?.flush();
+      }
+      
+      // Sanitize output to prevent information leaks
+      const sanitizedResult = this.sanitizeOutput(result);
+      
+      logger.info(`Tool ${name} executed successfully`, metadata);
+      if (!this.config.toolPrompts.returnVersions) {
+        delete metadata.prompt_versions;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: typeof sanitizedResult === 'string' ? sanitizedResult : JSON.stringify(sanitizedResult, null, 2)
+          },
+          ...extraContent.map(block => ({
+            type: 'text' as const,
+            text: this.sanitizeOutput(block.text),
+            _meta: { kind: block.kind }
+          }))
+        ],
+        ...(context.structuredContent && { structuredContent: context.structuredContent }),
+        ...(Object.keys(metadata).length > 0 && { _meta: metadata })
+      };
+    } catch (error) {
+      logger.error(`Error executing tool ${name}:`, error);
+      
+      if (error instanceof z.ZodError) {
         throw new McpError(
           ErrorCode.InvalidParams,
-          'Tool arguments are required and must be an object'
+          `Invalid parameters: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
         );
       }
+      
+      if (error instanceof McpError) {
+        throw error;
+      }
 
-      try {
-        // Validate input arguments with schema
-        const validatedArgs = tool.inputSchema.parse(args);
-        
-        // Sanitize input to prevent injection attacks
-        const sanitizedArgs = this.sanitizeInput(validatedArgs);
-        
-        // Execute the tool with sanitized input
-        const result = await tool.handler(sanitizedArgs, this.sealionClient);
-        
-        // Sanitize output to prevent information leaks
-        const sanitizedResult = this.sanitizeOutput(result);
-        
-        logger.info(`Tool ${name} executed successfully`);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: typeof sanitizedResult === 'string' ? sanitizedResult : JSON.stringify(sanitizedResult, null, 2)
-            }
-          ]
-        };
-      } catch (error) {
-        logger.error(`Error executing tool ${name}:`, error);
-        
-        if (error instanceof z.ZodError) {
-          throw new McpError(
-            ErrorCode.InvalidParams,
-            `Invalid parameters: ${error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
-          );
-        }
-        
-        if (error instanceof McpError) {
-          throw error;
-        }
-        
+      if (error instanceof InputRejectedError) {
         throw new McpError(
-          ErrorCode.InternalError,
-          `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          ErrorCode.InvalidParams,
+          `Invalid parameters: ${error.message}`
         );
       }
-    });
+
+      if (error instanceof RateLimitExceededError) {
+        throw new McpError(SeaLionErrorCode.RateLimited, error.message, {
+          retryable: true,
+          retry_after_ms: error.retryAfterMs,
+          scope: error.scope
+        });
+      }
+
+      const apiError = findSeaLionError(error);
+      if (apiError) {
+        throw this.toMcpError(apiError);
+      }
+      
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
   }
 
   /**
-   * Sanitize input to prevent injection attacks
+   * Validate a prompt's arguments and render its messages
    */
-  private sanitizeInput(input: any): any {
-    if (typeof input === 'string') {
-      // Remove potentially dangerous characters and scripts
-      return input
-        .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-        .replace(/javascript:/gi, '')
-        .replace(/on\w+\s*=/gi, '')
-        .replace(/['"]/g, '')
-        .trim();
+  private getPrompt(request: GetPromptRequest) {
+    const { name, arguments: args } = request.params;
+
+    let prompt: PromptDefinition | undefined;
+    try {
+      prompt = this.prompts.get(name) ?? this.promptTemplates.get(name);
+    } catch (error) {
+      logger.error(`Failed to load prompt ${name}:`, error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to load prompt: ${name}`
+      );
     }
-    
-    if (Array.isArray(input)) {
-      return input.map(item => this.sanitizeInput(item));
+
+    if (!prompt) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown prompt: ${name}`
+      );
     }
-    
-    if (input && typeof input === 'object') {
-      const sanitized: any = {};
-      for (const [key, value] of Object.entries(input)) {
-        sanitized[key] = this.sanitizeInput(value);
-      }
-      return sanitized;
+
+    const parsed = prompt.argumentsSchema.safeParse(args ?? {});
+    if (!parsed.success) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+      );
     }
-    
-    return input;
+
+    logger.info(`Rendering prompt: ${name}`);
+    return {
+      description: prompt.description,
+      messages: prompt.render(parsed.data).map(message => ({
+        role: message.role,
+        content: { type: 'text' as const, text: message.text }
+      }))
+    };
+  }
+
+  /**
+   * List a prompt's arguments from its object schema
+   */
+  private describePromptArguments(schema: z.ZodObject<any>) {
+    return Object.entries<z.ZodTypeAny>(schema.shape).map(([name, field]) => ({
+      name,
+      ...(field.description && { description: field.description }),
+      required: !field.isOptional()
+    }));
+  }
+
+  /**
+   * Read the caller's choice to wait for or be rejected by rate limits
+   *
+   * Clients opt in per request with `_meta: { rate_limit: 'wait' }`; the
+   * server default applies otherwise.
+   */
+  private getRateLimitMode(request: CallToolRequest): RateLimitMode | undefined {
+    const mode = request.params._meta?.rate_limit;
+    return mode === 'wait' || mode === 'reject' ? mode : undefined;
+  }
+
+  /**
+   * Map a Sea-lion API error to a distinct MCP error
+   */
+  private toMcpError(error: SeaLionError): McpError {
+    const data = {
+      retryable: error.retryable,
+      ...(error.status !== undefined && { status: error.status }),
+      ...((error instanceof SeaLionRateLimitError || error instanceof SeaLionUpstreamError) &&
+        error.retryAfterMs !== undefined && { retry_after_ms: error.retryAfterMs })
+    };
+
+    if (error instanceof SeaLionAuthError) {
+      return new McpError(SeaLionErrorCode.UpstreamAuthFailed, 'Sea-lion API rejected the server credentials. Please contact the server administrator.', data);
+    }
+    if (error instanceof SeaLionRateLimitError) {
+      return new McpError(SeaLionErrorCode.UpstreamRateLimited, error.message, data);
+    }
+    if (error instanceof SeaLionUpstreamError) {
+      return new McpError(SeaLionErrorCode.UpstreamUnavailable, error.message, data);
+    }
+    if (error instanceof SeaLionTimeoutError) {
+      return new McpError(SeaLionErrorCode.UpstreamTimeout, error.message, data);
+    }
+    if (error instanceof SeaLionEmptyContentError) {
+      return new McpError(SeaLionErrorCode.EmptyResponse, error.message, data);
+    }
+    return new McpError(SeaLionErrorCode.UpstreamRequestFailed, error.message, data);
+  }
+
+  /**
+   * Resolve the calling client from its token
+   *
+   * Returns undefined when authentication is disabled. HTTP clients present
+   * a bearer token per request; stdio clients use the token from their
+   * launch environment.
+   */
+  private authenticateClient(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): AuthorizedClient | undefined {
+    if (!this.authenticator) {
+      return undefined;
+    }
+
+    const token = this.config.transport === 'http'
+      ? extra.authInfo?.token
+      : this.config.clientToken;
+
+    const client = this.authenticator.authenticate(token);
+    if (!client) {
+      logger.warn('Rejected request with missing or invalid client token', { sessionId: extra.sessionId });
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Authentication required: missing or invalid client token'
+      );
+    }
+
+    return client;
+  }
+
+  /**
+   * Create a progress callback that sends notifications/progress to the caller
+   *
+   * Returns undefined when the request carries no progress token. Updates are
+   * throttled so long generations don't flood the transport: an update sent
+   * too soon is held back and sent when the interval has passed, unless a
+   * newer one replaces it first. Updates reaching the total are sent at once.
+   */
+  private createProgressReporter(
+    request: CallToolRequest,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): ProgressReporter | undefined {
+    const progressToken = request.params._meta?.progressToken;
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    let lastSent = 0;
+    let pending: ToolProgress | undefined;
+    let timer: NodeJS.Timeout | undefined;
+
+    const send = async (update: ToolProgress) => {
+      lastSent = Date.now();
+      try {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress: update.progress,
+            ...(update.total !== undefined && { total: update.total }),
+            ...(update.message !== undefined && { message: this.sanitizeOutput(update.message) })
+          }
+        });
+      } catch (error) {
+        logger.warn('Failed to send progress notification:', error);
+      }
+    };
+
+    const cancelPending = () => {
+      clearTimeout(timer);
+      timer = undefined;
+      pending = undefined;
+    };
+
+    const flush = async () => {
+      const update = pending;
+      cancelPending();
+      if (update) {
+        await send(update);
+      }
+    };
+
+    const report = async (update: ToolProgress) => {
+      const complete = update.total !== undefined && update.progress >= update.total;
+      const wait = lastSent + PROGRESS_INTERVAL_MS - Date.now();
+      if (complete || wait <= 0) {
+        cancelPending();
+        await send(update);
+        return;
+      }
+
+      pending = update;
+      timer ??= setTimeout(() => void flush(), wait);
+    };
+
+    return { report, flush };
   }
 
   /**
@@ -211,34 +660,16 @@ export class SeaLionMCPServer {
    * Convert Zod schema to JSON Schema for MCP compatibility
    */
   private convertZodToJsonSchema(zodSchema: z.ZodSchema): any {
-    // Basic conversion for common Zod types to JSON Schema
-    // This is a simplified implementation for the main types we use
     try {
-      // Get the shape of the schema if it's an object
-      if (zodSchema instanceof z.ZodObject) {
-        const shape = zodSchema.shape;
-        const properties: any = {};
-        const required: string[] = [];
-
-        for (const [key, value] of Object.entries(shape)) {
-          const fieldSchema = value as z.ZodSchema;
-          properties[key] = this.zodFieldToJsonSchema(fieldSchema);
-          
-          // Check if field is required (not optional)
-          if (!(fieldSchema instanceof z.ZodOptional) && !(fieldSchema instanceof z.ZodDefault)) {
-            required.push(key);
-          }
-        }
+      const jsonSchema = zodToJsonSchema(zodSchema);
 
-        return {
-          type: 'object',
-          properties,
-          required: required.length > 0 ? required : undefined,
-          additionalProperties: false
-        };
+      // MCP requires tool input and output schemas to be objects
+      if (jsonSchema.type !== 'object') {
+        logger.warn('Tool schema is not an object schema; advertising a generic object');
+        return { type: 'object' };
       }
-      
-      return { type: 'object' };
+
+      return jsonSchema;
     } catch (error) {
       logger.warn('Failed to convert Zod schema to JSON Schema:', error);
       return { type: 'object' };
@@ -246,31 +677,14 @@ export class SeaLionMCPServer {
   }
 
   /**
-   * Convert individual Zod field to JSON Schema
+   * Refresh the model registry, keeping the current models on failure
    */
-  private zodFieldToJsonSchema(field: z.ZodSchema): any {
-    if (field instanceof z.ZodString) {
-      return { type: 'string' };
-    } else if (field instanceof z.ZodNumber) {
-      return { type: 'number' };
-    } else if (field instanceof z.ZodBoolean) {
-      return { type: 'boolean' };
-    } else if (field instanceof z.ZodEnum) {
-      return { 
-        type: 'string',
-        enum: field.options
-      };
-    } else if (field instanceof z.ZodOptional) {
-      return this.zodFieldToJsonSchema(field.unwrap());
-    } else if (field instanceof z.ZodDefault) {
-      const inner = this.zodFieldToJsonSchema(field.removeDefault());
-      return {
-        ...inner,
-        default: field._def.defaultValue()
-      };
+  private async refreshModels(): Promise<void> {
+    try {
+      await this.sealionClient.refreshModels();
+    } catch (error) {
+      logger.warn('Failed to refresh the model listing; keeping the known models:', error);
     }
-    
-    return { type: 'string' }; // Fallback
   }
 
   /**
@@ -286,11 +700,27 @@ export class SeaLionMCPServer {
         logger.warn('Sea-lion API connection failed - server will start but tools may not work without valid API key:', apiError);
       }
 
-      // Create stdio transport for local development
-      const transport = new StdioServerTransport();
-      
-      // Connect the server to the transport
-      await this.server.connect(transport);
+      // Pick up models the endpoint added or dropped since the last release
+      await this.refreshModels();
+      if (this.config.models.refreshIntervalMs) {
+        setInterval(() => void this.refreshModels(), this.config.models.refreshIntervalMs).unref();
+      }
+
+      if (this.config.transport === 'http') {
+        // Serve Streamable HTTP and legacy SSE sessions for shared deployments
+        await startHttpTransport(() => this.createServer(), {
+          port: this.config.port,
+          host: this.config.host,
+          sessionIdleMs: this.config.sessionIdleMs,
+          maxSessions: this.config.maxSessions
+        });
+      } else {
+        // Create stdio transport for local development
+        const transport = new StdioServerTransport();
+        
+        // Connect the server to the transport
+        await this.createServer().connect(transport);
+      }
       
       logger.info('sea-lionMCP Server is running and ready to accept connections');
     } catch (error) {
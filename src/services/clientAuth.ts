@@ -0,0 +1,121 @@
+/**
+ * Client Authentication
+ *
+ * Checks MCP client tokens against a local key file. Each key lists the tools
+ * it may call and carries its own rate limit, so a shared deployment can hand
+ * out narrowly scoped credentials instead of the Sea-lion API key itself.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { TokenBucket } from '../utils/rateLimiter.js';
+
+// Schema for a single entry in the key file
+const ClientKeySchema = z.object({
+  name: z.string().min(1, 'Key name cannot be empty'),
+  token: z.string().min(16, 'Token must be at least 16 characters').optional(),
+  token_sha256: z.string().regex(/^[a-f0-9]{64}$/i, 'token_sha256 must be a hex-encoded SHA-256 digest').optional(),
+  tools: z.array(z.string().min(1)).min(1, 'Key must allow at least one tool (use "*" for all tools)'),
+  rate_limit: z.object({
+    max_requests: z.number().int().min(1),
+    window_ms: z.number().int().min(1000).default(60000)
+  }).optional()
+}).strict().refine(key => Boolean(key.token) !== Boolean(key.token_sha256), {
+  message: 'Exactly one of token or token_sha256 must be set'
+});
+
+// Schema for the key file as a whole
+const KeyFileSchema = z.object({
+  keys: z.array(ClientKeySchema)
+}).strict();
+
+type ClientKeyConfig = z.infer<typeof ClientKeySchema>;
+
+/**
+ * An authenticated client and what it is allowed to do
+ */
+export interface AuthorizedClient {
+  name: string;
+  rateLimiter?: TokenBucket;
+  canUseTool(toolName: string): boolean;
+}
+
+interface ClientKeyEntry extends AuthorizedClient {
+  digest: Buffer;
+}
+
+export class ClientAuthenticator {
+  private entries: ClientKeyEntry[];
+
+  constructor(keys: ClientKeyConfig[]) {
+    const seen = new Set<string>();
+    this.entries = keys.map(key => {
+      if (seen.has(key.name)) {
+        throw new Error(`Duplicate key name in auth key file: ${key.name}`);
+      }
+      seen.add(key.name);
+
+      const allowed = new Set(key.tools);
+      return {
+        name: key.name,
+        digest: key.token_sha256
+          ? Buffer.from(key.token_sha256.toLowerCase(), 'hex')
+          : hashToken(key.token as string),
+        // A bucket rather than a window, so a key's limit is weighted by tool cost like the others
+        rateLimiter: key.rate_limit
+          ? new TokenBucket(key.rate_limit.max_requests, key.rate_limit.window_ms)
+          : undefined,
+        canUseTool: (toolName: string) => allowed.has('*') || allowed.has(toolName)
+      };
+    });
+
+    logger.info(`Client authentication enabled with ${this.entries.length} keys`);
+  }
+
+  /**
+   * Load keys from a JSON key file
+   */
+  static fromFile(filePath: string): ClientAuthenticator {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read auth key file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const parsed = KeyFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid auth key file ${filePath}: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+    }
+
+    return new ClientAuthenticator(parsed.data.keys);
+  }
+
+  /**
+   * Find the client a token belongs to, or null if it matches no key
+   */
+  authenticate(token: string | undefined): AuthorizedClient | null {
+    if (!token) {
+      return null;
+    }
+
+    const digest = hashToken(token);
+    // Compare against every key so timing doesn't reveal which one matched
+    let match: ClientKeyEntry | null = null;
+    for (const entry of this.entries) {
+      if (timingSafeEqual(entry.digest, digest) && !match) {
+        match = entry;
+      }
+    }
+    return match;
+  }
+}
+
+/**
+ * Hash a token for constant-time comparison
+ */
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token, 'utf8').digest();
+}
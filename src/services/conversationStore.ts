@@ -0,0 +1,284 @@
+/**
+ * Conversation Store
+ *
+ * Keeps multi-turn chat history in memory for the sealion_chat tool.
+ * Conversations expire after a period of inactivity, the number of
+ * conversations and messages is bounded, and the history sent to the model
+ * is truncated to fit a token budget. Turns on the same conversation run one
+ * at a time.
+ */
+
+import { ChatMessage } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface ConversationStoreOptions {
+  ttlMs: number;
+  /**
+   * Conversations kept per owner
+   */
+  maxConversations: number;
+  /**
+   * Conversations kept across all owners
+   */
+  maxTotalConversations: number;
+  maxMessages: number;
+  historyTokenBudget: number;
+}
+
+export interface Conversation {
+  id: string;
+  owner: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Summary returned when listing conversations
+ */
+export interface ConversationSummary {
+  conversation_id: string;
+  message_count: number;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+}
+
+const DEFAULT_OPTIONS: ConversationStoreOptions = {
+  ttlMs: 30 * 60 * 1000,
+  maxConversations: 100,
+  maxTotalConversations: 1000,
+  maxMessages: 50,
+  historyTokenBudget: 4000
+};
+
+/**
+ * Rough token estimate used for history truncation
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class ConversationStore {
+  private conversations: Map<string, Conversation>;
+  private options: ConversationStoreOptions;
+  /**
+   * Settles when the last queued turn of each busy conversation has finished
+   */
+  private turns: Map<string, Promise<void>>;
+
+  constructor(options: Partial<ConversationStoreOptions> = {}) {
+    this.conversations = new Map();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.turns = new Map();
+  }
+
+  /**
+   * Run a turn once the turns already started on the same conversation have
+   * finished, so concurrent turns don't read the same history and overwrite
+   * each other's messages
+   */
+  async runExclusive<T>(owner: string, id: string, turn: () => Promise<T>): Promise<T> {
+    const key = this.key(owner, id);
+    const current = (this.turns.get(key) ?? Promise.resolve()).then(turn);
+    const settled = current.then(() => undefined, () => undefined);
+    this.turns.set(key, settled);
+    try {
+      return await current;
+    } finally {
+      if (this.turns.get(key) === settled) {
+        this.turns.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get a conversation, or undefined if it doesn't exist or has expired
+   */
+  get(owner: string, id: string): Conversation | undefined {
+    this.cleanupExpired(Date.now());
+    return this.conversations.get(this.key(owner, id));
+  }
+
+  /**
+   * Get a copy of a conversation as getOrCreate would leave it, without
+   * creating, changing or evicting anything
+   */
+  preview(owner: string, id: string, systemPrompt?: string): Conversation {
+    const existing = this.get(owner, id);
+    if (!existing) {
+      return this.create(owner, id, systemPrompt);
+    }
+
+    const conversation = { ...existing, messages: [...existing.messages] };
+    if (systemPrompt !== undefined) {
+      this.setSystemPrompt(conversation, systemPrompt);
+    }
+    return conversation;
+  }
+
+  /**
+   * Get a conversation, creating it if needed
+   */
+  getOrCreate(owner: string, id: string, systemPrompt?: string): Conversation {
+    const existing = this.get(owner, id);
+    if (existing) {
+      if (systemPrompt !== undefined) {
+        this.setSystemPrompt(existing, systemPrompt);
+      }
+      return existing;
+    }
+
+    this.evictOldestIfFull(owner);
+
+    const conversation = this.create(owner, id, systemPrompt);
+    this.conversations.set(this.key(owner, id), conversation);
+    logger.debug('Conversation created', { conversationId: id, total: this.conversations.size });
+    return conversation;
+  }
+
+  /**
+   * Append messages to a conversation, dropping the oldest turns past the limit
+   */
+  append(conversation: Conversation, ...messages: ChatMessage[]): void {
+    conversation.messages.push(...messages);
+    conversation.updatedAt = Date.now();
+
+    const hasSystem = conversation.messages[0]?.role === 'system';
+    const limit = this.options.maxMessages + (hasSystem ? 1 : 0);
+    if (conversation.messages.length > limit) {
+      const excess = conversation.messages.length - limit;
+      conversation.messages.splice(hasSystem ? 1 : 0, excess);
+    }
+  }
+
+  /**
+   * Build the message list to send to the model
+   *
+   * Keeps the system prompt and as many of the most recent messages as fit
+   * in the token budget. The newest message is always included.
+   */
+  getContextMessages(conversation: Conversation, budget: number = this.options.historyTokenBudget): ChatMessage[] {
+    const messages = conversation.messages;
+    const system = messages[0]?.role === 'system' ? messages[0] : undefined;
+    const history = system ? messages.slice(1) : messages;
+
+    let remaining = budget - (system ? estimateTokens(system.content) : 0);
+    const selected: ChatMessage[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+      const cost = estimateTokens(history[i].content);
+      if (selected.length > 0 && cost > remaining) {
+        break;
+      }
+      selected.unshift(history[i]);
+      remaining -= cost;
+    }
+
+    // Don't start the context on an assistant reply
+    while (selected.length > 1 && selected[0].role === 'assistant') {
+      selected.shift();
+    }
+
+    if (selected.length < history.length) {
+      logger.debug('Conversation history truncated', {
+        conversationId: conversation.id,
+        kept: selected.length,
+        dropped: history.length - selected.length
+      });
+    }
+
+    return system ? [system, ...selected] : selected;
+  }
+
+  /**
+   * List conversations belonging to an owner, most recent first
+   */
+  list(owner: string): ConversationSummary[] {
+    this.cleanupExpired(Date.now());
+    return Array.from(this.conversations.values())
+      .filter(conversation => conversation.owner === owner)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(conversation => this.summarize(conversation));
+  }
+
+  /**
+   * Delete a conversation
+   */
+  delete(owner: string, id: string): boolean {
+    return this.conversations.delete(this.key(owner, id));
+  }
+
+  /**
+   * Describe a conversation without its messages
+   */
+  summarize(conversation: Conversation): ConversationSummary {
+    return {
+      conversation_id: conversation.id,
+      message_count: conversation.messages.length,
+      created_at: new Date(conversation.createdAt).toISOString(),
+      updated_at: new Date(conversation.updatedAt).toISOString(),
+      expires_at: new Date(conversation.updatedAt + this.options.ttlMs).toISOString()
+    };
+  }
+
+  private create(owner: string, id: string, systemPrompt?: string): Conversation {
+    const now = Date.now();
+    return {
+      id,
+      owner,
+      messages: systemPrompt ? [{ role: 'system', content: systemPrompt }] : [],
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Replace or add the system prompt of a conversation
+   */
+  private setSystemPrompt(conversation: Conversation, systemPrompt: string): void {
+    if (conversation.messages[0]?.role === 'system') {
+      conversation.messages[0] = { role: 'system', content: systemPrompt };
+    } else {
+      conversation.messages.unshift({ role: 'system', content: systemPrompt });
+    }
+  }
+
+  /**
+   * Make room for a new conversation by evicting the least recently used ones
+   *
+   * The per-owner limit keeps one client from pushing out everyone else's
+   * history. The total limit bounds memory when there are many owners, as
+   * over HTTP, where every session is an owner of its own.
+   */
+  private evictOldestIfFull(owner: string): void {
+    const owned = Array.from(this.conversations.values()).filter(c => c.owner === owner);
+    if (owned.length >= this.options.maxConversations) {
+      this.evictOldest(owned);
+    }
+    if (this.conversations.size >= this.options.maxTotalConversations) {
+      this.evictOldest(Array.from(this.conversations.values()));
+    }
+  }
+
+  private evictOldest(conversations: Conversation[]): void {
+    const oldest = conversations.reduce((a, b) => (a.updatedAt <= b.updatedAt ? a : b));
+    this.conversations.delete(this.key(oldest.owner, oldest.id));
+    logger.info('Evicted least recently used conversation', { conversationId: oldest.id });
+  }
+
+  /**
+   * Remove conversations that have been idle longer than the TTL
+   */
+  private cleanupExpired(currentTime: number): void {
+    const cutoff = currentTime - this.options.ttlMs;
+    for (const [key, conversation] of this.conversations) {
+      if (conversation.updatedAt <= cutoff) {
+        this.conversations.delete(key);
+      }
+    }
+  }
+
+  private key(owner: string, id: string): string {
+    return `${owner}\u0000${id}`;
+  }
+}
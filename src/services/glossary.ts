@@ -0,0 +1,268 @@
+/**
+ * Translation Glossaries
+ *
+ * Loads term lists from local JSON or CSV files so product names, legal terms
+ * and brand vocabulary are translated consistently. Each file in the glossary
+ * directory is one glossary, identified by its file name without extension.
+ * Terms apply to a language pair, or to every pair when the languages are
+ * left out, and may be marked do-not-translate.
+ */
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { z } from 'zod';
+import { SupportedLanguage, SupportedLanguages } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+// Glossary ids are file names, so only safe characters are allowed
+export const GLOSSARY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Most terms injected into a single prompt
+const MAX_PROMPT_TERMS = 100;
+
+// Schema for a single glossary term, shared by JSON entries and CSV rows
+const GlossaryTermSchema = z.object({
+  source_language: z.enum(SupportedLanguages).optional(),
+  target_language: z.enum(SupportedLanguages).optional(),
+  source: z.string().min(1, 'Source term cannot be empty'),
+  target: z.string().min(1, 'Target term cannot be empty').optional(),
+  do_not_translate: z.boolean().default(false),
+  case_sensitive: z.boolean().default(false),
+  note: z.string().optional()
+}).strict().refine(term => term.do_not_translate || term.target, {
+  message: 'Either target or do_not_translate must be set'
+});
+
+// Schema for a JSON glossary file
+const GlossaryFileSchema = z.object({
+  description: z.string().optional(),
+  terms: z.array(GlossaryTermSchema)
+}).strict();
+
+export type GlossaryTerm = z.infer<typeof GlossaryTermSchema>;
+
+/**
+ * A glossary term missing from a translation
+ */
+export interface GlossaryViolation {
+  source: string;
+  expected: string;
+  do_not_translate: boolean;
+}
+
+interface LoadedGlossary {
+  terms: GlossaryTerm[];
+  mtimeMs: number;
+}
+
+export class GlossaryStore {
+  private directory: string;
+  private glossaries: Map<string, LoadedGlossary>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.glossaries = new Map();
+  }
+
+  /**
+   * List the ids of the glossaries in the directory
+   */
+  list(): string[] {
+    try {
+      return readdirSync(this.directory)
+        .filter(file => ['.json', '.csv'].includes(extname(file).toLowerCase()))
+        .map(file => file.slice(0, -extname(file).length))
+        .filter(id => GLOSSARY_ID_PATTERN.test(id))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get a glossary's terms, reloading the file when it has changed
+   */
+  get(id: string): GlossaryTerm[] {
+    if (!GLOSSARY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid glossary id: ${id}`);
+    }
+
+    const filePath = this.findFile(id);
+    if (!filePath) {
+      throw new Error(`Unknown glossary: ${id}`);
+    }
+
+    const mtimeMs = statSync(filePath).mtimeMs;
+    const cached = this.glossaries.get(id);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.terms;
+    }
+
+    const terms = loadGlossaryFile(filePath);
+    this.glossaries.set(id, { terms, mtimeMs });
+    logger.info('Glossary loaded', { id, terms: terms.length });
+    return terms;
+  }
+
+  private findFile(id: string): string | undefined {
+    for (const extension of ['.json', '.csv']) {
+      const filePath = join(this.directory, `${id}${extension}`);
+      try {
+        if (statSync(filePath).isFile()) {
+          return filePath;
+        }
+      } catch {
+        // Not present with this extension
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Select the terms for a language pair that occur in a text
+ */
+export function selectGlossaryTerms(
+  terms: GlossaryTerm[],
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  text: string
+): GlossaryTerm[] {
+  return terms
+    .filter(term => (!term.source_language || term.source_language === sourceLanguage) &&
+      (!term.target_language || term.target_language === targetLanguage))
+    .filter(term => containsTerm(text, term.source, term.case_sensitive))
+    .slice(0, MAX_PROMPT_TERMS);
+}
+
+/**
+ * Write glossary terms as prompt instructions
+ */
+export function buildGlossaryInstructions(terms: GlossaryTerm[]): string {
+  const lines = terms.map(term => {
+    const note = term.note ? ` (${term.note})` : '';
+    return term.do_not_translate
+      ? `- Keep "${term.source}" exactly as written; do not translate it${note}`
+      : `- Translate "${term.source}" as "${term.target}"${note}`;
+  });
+  return `Use this terminology:\n${lines.join('\n')}`;
+}
+
+/**
+ * Find glossary terms whose required rendering is missing from a translation
+ */
+export function findGlossaryViolations(terms: GlossaryTerm[], translation: string): GlossaryViolation[] {
+  return terms
+    .map(term => ({
+      source: term.source,
+      expected: term.do_not_translate ? term.source : term.target as string,
+      do_not_translate: term.do_not_translate,
+      caseSensitive: term.case_sensitive
+    }))
+    .filter(term => !containsTerm(translation, term.expected, term.caseSensitive))
+    .map(({ caseSensitive: _caseSensitive, ...violation }) => violation);
+}
+
+/**
+ * Read and validate a JSON or CSV glossary file
+ */
+function loadGlossaryFile(filePath: string): GlossaryTerm[] {
+  let raw: unknown;
+  try {
+    const content = readFileSync(filePath, 'utf8');
+    raw = extname(filePath).toLowerCase() === '.csv'
+      ? { terms: parseCsvTerms(content) }
+      : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read glossary file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const parsed = GlossaryFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid glossary file ${filePath}: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+  return parsed.data.terms;
+}
+
+/**
+ * Turn CSV rows into term objects, using the header row as field names
+ *
+ * Empty cells are left out, and the boolean columns accept true/false,
+ * yes/no or 1/0.
+ */
+function parseCsvTerms(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  return rows
+    .filter(row => row.some(cell => cell.trim() !== ''))
+    .map(row => {
+      const term: Record<string, unknown> = {};
+      columns.forEach((column, i) => {
+        const cell = (row[i] ?? '').trim();
+        if (cell === '') {
+          return;
+        }
+        term[column] = column === 'do_not_translate' || column === 'case_sensitive'
+          ? ['true', 'yes', '1'].includes(cell.toLowerCase())
+          : cell;
+      });
+      return term;
+    });
+}
+
+/**
+ * Parse CSV text into rows of cells, supporting quoted fields
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function containsTerm(text: string, term: string, caseSensitive: boolean): boolean {
+  return caseSensitive
+    ? text.includes(term)
+    : text.toLocaleLowerCase().includes(term.toLocaleLowerCase());
+}
@@ -0,0 +1,400 @@
+/**
+ * Inference Backends
+ *
+ * Chat completions can be served by several OpenAI-compatible endpoints, such
+ * as the Sea-lion API and self-hosted vLLM or Ollama servers running the
+ * SEA-LION weights. Backends are tried in priority order. Each one tracks its
+ * own health: after repeated failures its circuit opens and requests skip it
+ * until a cooldown has passed, then a single request is let through to test it.
+ */
+
+import OpenAI from 'openai';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { ToolResultMetadata } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import type { ListedModel } from './modelRegistry.js';
+import { SeaLionAuthError, SeaLionError, classifyError } from './sealionErrors.js';
+
+// Default endpoint used when no backend file is configured
+const DEFAULT_BASE_URL = 'https://api.sea-lion.ai/v1';
+// Statuses a backend answers when it cannot serve a request that another
+// backend might, such as an unknown model name or an unsupported parameter
+const REJECTED_REQUEST_STATUSES = new Set([400, 404, 422]);
+
+/**
+ * Circuit breaker state of a backend
+ *
+ * - `closed`: requests are sent normally
+ * - `open`: the backend failed repeatedly and is skipped until the cooldown ends
+ * - `half_open`: the cooldown has ended; the next request decides whether the
+ *   circuit closes or opens again, and other requests skip the backend until
+ *   it has finished
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface BackendStatus {
+  name: string;
+  priority: number;
+  /**
+   * Model ids the backend serves, or undefined when it serves any model
+   */
+  models?: string[];
+  circuit: CircuitState;
+  consecutive_failures: number;
+  requests: number;
+  failures: number;
+  last_error?: string;
+  last_failure_at?: string;
+  last_success_at?: string;
+}
+
+// Schema for a backend configuration file
+const BackendFileSchema = z.object({
+  backends: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Backend name may only contain letters, digits, _ and -'),
+    base_url: z.string().url('Base URL must be a valid URL'),
+    api_key: z.string().optional(),
+    api_key_env: z.string().optional().describe('Environment variable holding the API key'),
+    priority: z.number().int().default(0).describe('Lower values are tried first; ties keep the file order'),
+    models: z.record(z.string().min(1, 'Model name cannot be empty')).optional()
+      .describe('Name the backend uses for each Sea-lion model id; the backend serves only these models'),
+    timeout_ms: z.number().int().positive().optional()
+  }).strict()).min(1, 'At least one backend is required'),
+  circuit_breaker: z.object({
+    failure_threshold: z.number().int().positive().default(3).describe('Consecutive failures that open the circuit'),
+    cooldown_ms: z.number().int().positive().default(30000).describe('Time an open circuit skips the backend')
+  }).strict().default({})
+}).strict().superRefine((file, ctx) => {
+  const names = new Set(file.backends.map(backend => backend.name));
+  if (names.size !== file.backends.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['backends'], message: 'Backend names must be unique' });
+  }
+});
+
+type BackendFile = z.infer<typeof BackendFileSchema>;
+
+type BackendConfig = BackendFile['backends'][number];
+
+type CircuitBreakerOptions = BackendFile['circuit_breaker'];
+
+interface Backend {
+  name: string;
+  priority: number;
+  client: OpenAI;
+  models?: Record<string, string>;
+  consecutiveFailures: number;
+  /**
+   * End of the cooldown while the circuit is open or half open
+   */
+  openUntil?: number;
+  /**
+   * Whether a request testing the backend while its circuit is not closed is in flight
+   */
+  probing: boolean;
+  requests: number;
+  failures: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+}
+
+export class BackendPool {
+  private backends: Backend[];
+  private breaker: CircuitBreakerOptions;
+
+  constructor(backends: BackendConfig[], breaker: CircuitBreakerOptions, env: NodeJS.ProcessEnv = process.env) {
+    const defaultTimeoutMs = parseInt(env.SEALION_TIMEOUT_MS || '60000', 10) || 60000;
+    this.breaker = breaker;
+
+    // Stable sort keeps the configured order among equal priorities
+    this.backends = [...backends].sort((a, b) => a.priority - b.priority).map(config => ({
+      name: config.name,
+      priority: config.priority,
+      // Retries are handled by the caller so they can be classified and logged
+      client: new OpenAI({
+        apiKey: getApiKey(config, env),
+        baseURL: config.base_url,
+        maxRetries: 0,
+        timeout: config.timeout_ms ?? defaultTimeoutMs
+      }),
+      models: config.models,
+      consecutiveFailures: 0,
+      probing: false,
+      requests: 0,
+      failures: 0
+    }));
+  }
+
+  /**
+   * Create the pool from SEALION_BACKENDS_FILE, or a single `sealion`
+   * backend from SEALION_BASE_URL and SEALION_API_KEY when it is unset
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): BackendPool {
+    const filePath = env.SEALION_BACKENDS_FILE;
+    if (!filePath) {
+      const apiKey = env.SEALION_API_KEY || env.API_KEY || '';
+      if (!apiKey) {
+        logger.warn('Sea-lion API key not found in environment variables. Please set SEALION_API_KEY or API_KEY.');
+      }
+      return new BackendPool(
+        [{ name: 'sealion', base_url: env.SEALION_BASE_URL || DEFAULT_BASE_URL, api_key: apiKey, priority: 0 }],
+        { failure_threshold: 3, cooldown_ms: 30000 },
+        env
+      );
+    }
+
+    const file = loadBackendFile(filePath);
+    logger.info('Inference backends loaded', { path: filePath, backends: file.backends.map(backend => backend.name) });
+    return new BackendPool(file.backends, file.circuit_breaker, env);
+  }
+
+  /**
+   * Get the backend names in the order they are tried
+   */
+  names(): string[] {
+    return this.backends.map(backend => backend.name);
+  }
+
+  /**
+   * Send a request to the first backend that serves the model and succeeds
+   *
+   * Retryable failures, rejected credentials and requests the backend
+   * rejected (400, 404 or 422) move on to the next backend, unless part of a
+   * streamed answer was already delivered. A rejected request does not count
+   * toward the backend's circuit. Errors raised before any backend answered,
+   * which would fail on every backend, are thrown right away. When every
+   * backend failed, the last error is thrown.
+   *
+   * A backend whose circuit is not closed takes one request at a time; it is
+   * skipped while another request is testing it.
+   */
+  async run<T>(
+    model: string,
+    request: (client: OpenAI, model: string) => Promise<T>,
+    attempt: { committed: boolean } = { committed: false }
+  ): Promise<{ result: T; backend: string }> {
+    const candidates = this.getCandidates(model);
+    let lastError: SeaLionError | undefined;
+
+    for (const [index, backend] of candidates.entries()) {
+      // An earlier candidate's request may have given another call time to start testing this one
+      const probe = getCircuitState(backend, Date.now()) !== 'closed';
+      if (probe && backend.probing) {
+        continue;
+      }
+      backend.probing = probe;
+      backend.requests++;
+      try {
+        const result = await request(backend.client, backend.models?.[model] ?? model);
+        this.recordSuccess(backend);
+        return { result, backend: backend.name };
+      } catch (rawError) {
+        const error = classifyError(rawError);
+        const rejected = error.status !== undefined && REJECTED_REQUEST_STATUSES.has(error.status);
+        if (!error.retryable && !(error instanceof SeaLionAuthError) && !rejected) {
+          throw error;
+        }
+
+        // The backend answered, so a rejected request says nothing about its health
+        if (!rejected) {
+          this.recordFailure(backend, error);
+        }
+        if (attempt.committed) {
+          throw error;
+        }
+        lastError = error;
+        if (index < candidates.length - 1) {
+          logger.warn('Backend request failed, trying next backend', {
+            backend: backend.name,
+            next: candidates[index + 1].name,
+            error: error.name
+          });
+        }
+      } finally {
+        if (probe) {
+          backend.probing = false;
+        }
+      }
+    }
+
+    throw lastError ?? unavailable(model);
+  }
+
+  /**
+   * List the models every reachable backend serves, by Sea-lion model id
+   *
+   * Names a backend maps are translated back to model ids, and a backend
+   * with a mapping contributes only the models it maps. Throws when no
+   * backend could be listed.
+   */
+  async listModels(requestOptions: { headers?: Record<string, string> } = {}): Promise<ListedModel[]> {
+    const listed = new Map<string, ListedModel>();
+    let lastError: SeaLionError | undefined;
+    let succeeded = false;
+
+    for (const backend of this.backends) {
+      const ids = backend.models && new Map(Object.entries(backend.models).map(([id, name]) => [name, id]));
+      try {
+        for await (const model of backend.client.models.list(requestOptions)) {
+          const id = ids ? ids.get(model.id) : model.id;
+          if (!id || listed.has(id)) {
+            continue;
+          }
+          // vLLM reports the context window as max_model_len
+          const contextLength = (model as { max_model_len?: unknown }).max_model_len;
+          listed.set(id, {
+            id,
+            context_length: typeof contextLength === 'number' && contextLength > 0 ? contextLength : undefined
+          });
+        }
+        succeeded = true;
+      } catch (error) {
+        lastError = classifyError(error);
+        logger.warn('Failed to list backend models', { backend: backend.name, error: lastError.message });
+      }
+    }
+
+    if (!succeeded) {
+      throw lastError as SeaLionError;
+    }
+    return Array.from(listed.values());
+  }
+
+  /**
+   * Report the health of every backend
+   */
+  status(): BackendStatus[] {
+    const now = Date.now();
+    return this.backends.map(backend => ({
+      name: backend.name,
+      priority: backend.priority,
+      models: backend.models && Object.keys(backend.models),
+      circuit: getCircuitState(backend, now),
+      consecutive_failures: backend.consecutiveFailures,
+      requests: backend.requests,
+      failures: backend.failures,
+      last_error: backend.lastError,
+      last_failure_at: backend.lastFailureAt ? new Date(backend.lastFailureAt).toISOString() : undefined,
+      last_success_at: backend.lastSuccessAt ? new Date(backend.lastSuccessAt).toISOString() : undefined
+    }));
+  }
+
+  /**
+   * Pick the backends to try for a model, in priority order
+   *
+   * Backends with an open circuit, and half open backends already being
+   * tested, are skipped. When every backend serving the model is open, the
+   * one whose cooldown ends first is tried anyway rather than failing without
+   * a request, unless a request is testing it already.
+   */
+  private getCandidates(model: string): Backend[] {
+    const serving = this.backends.filter(backend => !backend.models || Object.hasOwn(backend.models, model));
+    if (serving.length === 0) {
+      throw new SeaLionError(`No inference backend serves model ${model}`);
+    }
+
+    const now = Date.now();
+    const ready = serving.filter(backend => {
+      const state = getCircuitState(backend, now);
+      return state === 'closed' || (state === 'half_open' && !backend.probing);
+    });
+    if (ready.length > 0) {
+      return ready;
+    }
+
+    const idle = serving.filter(backend => getCircuitState(backend, now) === 'open' && !backend.probing);
+    if (idle.length === 0) {
+      throw unavailable(model);
+    }
+    return [idle.reduce((first, backend) => (backend.openUntil as number) < (first.openUntil as number) ? backend : first)];
+  }
+
+  private recordSuccess(backend: Backend): void {
+    if (backend.openUntil !== undefined) {
+      logger.info('Backend circuit closed', { backend: backend.name });
+    }
+    backend.consecutiveFailures = 0;
+    backend.openUntil = undefined;
+    backend.lastSuccessAt = Date.now();
+  }
+
+  private recordFailure(backend: Backend, error: SeaLionError): void {
+    const now = Date.now();
+    backend.consecutiveFailures++;
+    backend.failures++;
+    backend.lastError = error.message;
+    backend.lastFailureAt = now;
+
+    // A failed test request in half open state opens the circuit again
+    if (backend.consecutiveFailures >= this.breaker.failure_threshold) {
+      if (getCircuitState(backend, now) !== 'open') {
+        logger.warn('Backend circuit opened', {
+          backend: backend.name,
+          failures: backend.consecutiveFailures,
+          cooldownMs: this.breaker.cooldown_ms
+        });
+      }
+      backend.openUntil = now + this.breaker.cooldown_ms;
+    }
+  }
+}
+
+/**
+ * Add the backends that served a request to a tool result's metadata
+ */
+export function recordBackends(metadata: ToolResultMetadata | undefined, backends: string[] = []): void {
+  if (!metadata || backends.length === 0) {
+    return;
+  }
+  metadata.backends = Array.from(new Set([...(metadata.backends ?? []), ...backends]));
+}
+
+/**
+ * Error for a model whose backends are all being tested by other requests
+ */
+function unavailable(model: string): SeaLionError {
+  return new SeaLionError(`Every inference backend serving model ${model} is recovering. Please try again later.`, { retryable: true });
+}
+
+function getCircuitState(backend: Backend, now: number): CircuitState {
+  if (backend.openUntil === undefined) {
+    return 'closed';
+  }
+  return backend.openUntil > now ? 'open' : 'half_open';
+}
+
+/**
+ * Resolve a backend's API key; local servers usually need none
+ */
+function getApiKey(config: BackendConfig, env: NodeJS.ProcessEnv): string {
+  if (config.api_key !== undefined) {
+    return config.api_key;
+  }
+  if (config.api_key_env) {
+    const apiKey = env[config.api_key_env];
+    if (!apiKey) {
+      logger.warn('Backend API key variable is not set', { backend: config.name, variable: config.api_key_env });
+    }
+    return apiKey || '';
+  }
+  return '';
+}
+
+/**
+ * Read and validate a backend configuration file
+ */
+function loadBackendFile(filePath: string): BackendFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read backend configuration ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const parsed = BackendFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid backend configuration ${filePath}: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+  return parsed.data;
+}
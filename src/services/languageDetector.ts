@@ -0,0 +1,227 @@
+/**
+ * Language Detection
+ *
+ * Detects which supported language a text is written in. Scripts such as
+ * Thai, Lao, Khmer, Burmese, Tamil and Chinese are identified locally from
+ * their Unicode ranges, as is Vietnamese from its distinctive diacritics.
+ * Other Latin-script text (English, Indonesian, Malay, Filipino) is sent to
+ * a Sea-lion model, with a stopword heuristic as the fallback.
+ */
+
+import { z } from 'zod';
+import { SeaLionModel, SupportedLanguage, SupportedLanguages, ToolResultMetadata } from '../types/index.js';
+import { SeaLionClient } from './sealionClient.js';
+import { logger } from '../utils/logger.js';
+
+export interface LanguageCandidate {
+  language: SupportedLanguage;
+  confidence: number;
+}
+
+export interface LanguageDetectionResult {
+  candidates: LanguageCandidate[];
+  method: 'script' | 'model' | 'heuristic';
+}
+
+export interface LanguageDetectionOptions {
+  model?: string;
+  maxCandidates?: number;
+  /**
+   * Allow a model call for Latin-script text
+   */
+  useModel?: boolean;
+  /**
+   * Receives the cache status and backend of the model call, if one is made
+   */
+  metadata?: ToolResultMetadata;
+}
+
+// Unicode ranges for scripts that map to a single supported language
+const ScriptRanges: Array<{ language: SupportedLanguage; pattern: RegExp }> = [
+  { language: 'thai', pattern: /[\u0E00-\u0E7F]/g },
+  { language: 'lao', pattern: /[\u0E80-\u0EFF]/g },
+  { language: 'khmer', pattern: /[\u1780-\u17FF\u19E0-\u19FF]/g },
+  { language: 'burmese', pattern: /[\u1000-\u109F\uA9E0-\uA9FF\uAA60-\uAA7F]/g },
+  { language: 'tamil', pattern: /[\u0B80-\u0BFF]/g },
+  { language: 'chinese', pattern: /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/g }
+];
+
+const LatinPattern = /[A-Za-z\u00C0-\u024F\u1E00-\u1EFF]/g;
+
+// Letters that only Vietnamese uses among the supported Latin-script languages
+const VietnamesePattern = /[\u0102\u0103\u0110\u0111\u01A0\u01A1\u01AF\u01B0\u1EA0-\u1EF9]/g;
+
+// Share of letters a script needs before it is trusted without the model
+const SCRIPT_CONFIDENCE_THRESHOLD = 0.6;
+
+// Common function words for the Latin-script fallback heuristic
+const Stopwords: Partial<Record<SupportedLanguage, string[]>> = {
+  english: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'it', 'you', 'for', 'with', 'this', 'have', 'not'],
+  indonesian: ['yang', 'dan', 'di', 'ini', 'itu', 'tidak', 'dengan', 'untuk', 'saya', 'anda', 'ada', 'akan', 'sudah', 'bisa', 'kami'],
+  malay: ['yang', 'dan', 'di', 'ini', 'itu', 'tidak', 'dengan', 'untuk', 'saya', 'anda', 'ada', 'akan', 'sudah', 'boleh', 'kerana'],
+  filipino: ['ang', 'ng', 'sa', 'mga', 'na', 'ay', 'at', 'hindi', 'ako', 'ko', 'po', 'ka', 'siya', 'namin', 'kayo']
+};
+
+const LatinLanguages: SupportedLanguage[] = ['english', 'indonesian', 'malay', 'filipino'];
+
+// Expected shape of the model's answer
+const ModelAnswerSchema = z.object({
+  candidates: z.array(z.object({
+    language: z.string(),
+    confidence: z.number().min(0).max(1)
+  })).min(1)
+});
+
+/**
+ * Detect the language of a text
+ */
+export async function detectLanguage(
+  text: string,
+  client: SeaLionClient,
+  options: LanguageDetectionOptions = {}
+): Promise<LanguageDetectionResult> {
+  const maxCandidates = options.maxCandidates ?? 3;
+  const scriptCandidates = detectByScript(text);
+
+  const top = scriptCandidates[0];
+  if (top && top.confidence >= SCRIPT_CONFIDENCE_THRESHOLD) {
+    logger.debug('Language detected from script', { language: top.language, confidence: top.confidence });
+    return { candidates: scriptCandidates.slice(0, maxCandidates), method: 'script' };
+  }
+
+  if (options.useModel !== false) {
+    try {
+      const candidates = await detectWithModel(text, client, options.model ?? SeaLionModel.V3_9B_IT, options.metadata);
+      logger.debug('Language detected by model', { language: candidates[0]?.language });
+      return { candidates: candidates.slice(0, maxCandidates), method: 'model' };
+    } catch (error) {
+      logger.warn('Model language detection failed, using heuristic:', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return { candidates: detectByStopwords(text).slice(0, maxCandidates), method: 'heuristic' };
+}
+
+/**
+ * Rank languages by the share of letters written in their script
+ *
+ * Latin-script text yields only Vietnamese, and only when Vietnamese-specific
+ * letters are present; other Latin text needs the model or stopwords.
+ */
+export function detectByScript(text: string): LanguageCandidate[] {
+  const latinCount = (text.match(LatinPattern) || []).length;
+  const counts = ScriptRanges.map(({ language, pattern }) => ({
+    language,
+    count: (text.match(pattern) || []).length
+  }));
+
+  const total = latinCount + counts.reduce((sum, entry) => sum + entry.count, 0);
+  if (total === 0) {
+    return [];
+  }
+
+  const candidates: LanguageCandidate[] = counts
+    .filter(entry => entry.count > 0)
+    .map(entry => ({ language: entry.language, confidence: round(entry.count / total) }));
+
+  const vietnameseCount = (text.match(VietnamesePattern) || []).length;
+  if (latinCount > 0 && vietnameseCount / latinCount >= 0.05) {
+    candidates.push({ language: 'vietnamese', confidence: round(latinCount / total) });
+  }
+
+  return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Get the share of a text's letters written in a language's script
+ *
+ * Latin-script languages all count Latin letters. Text without letters
+ * counts as fully in script.
+ */
+export function getScriptShare(text: string, language: SupportedLanguage): number {
+  const letters = (text.match(/[\p{L}\p{M}]/gu) || []).length;
+  if (letters === 0) {
+    return 1;
+  }
+
+  const pattern = ScriptRanges.find(entry => entry.language === language)?.pattern ?? LatinPattern;
+  const inScript = (text.match(pattern) || []).length;
+  return round(Math.min(inScript / letters, 1));
+}
+
+/**
+ * Rank Latin-script languages by stopword hits
+ */
+export function detectByStopwords(text: string): LanguageCandidate[] {
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  if (words.length === 0) {
+    return [];
+  }
+
+  const scores = LatinLanguages.map(language => {
+    const stopwords = new Set(Stopwords[language]);
+    return { language, hits: words.filter(word => stopwords.has(word)).length };
+  });
+
+  const totalHits = scores.reduce((sum, entry) => sum + entry.hits, 0);
+  if (totalHits === 0) {
+    return [{ language: 'english', confidence: 0.25 }];
+  }
+
+  return scores
+    .filter(entry => entry.hits > 0)
+    .map(entry => ({ language: entry.language, confidence: round(entry.hits / totalHits) }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Ask a Sea-lion model to rank candidate languages
+ */
+async function detectWithModel(
+  text: string,
+  client: SeaLionClient,
+  model: string,
+  metadata?: ToolResultMetadata
+): Promise<LanguageCandidate[]> {
+  const sample = text.slice(0, 1000);
+
+  const response = await client.generateText({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: `You identify the language of text. Answer only with JSON of the form {"candidates":[{"language":"<name>","confidence":<0-1>}]}, most likely first. Use only these language names: ${SupportedLanguages.join(', ')}.`
+      },
+      {
+        role: 'user',
+        content: `Identify the language of this text:\n\n${sample}`
+      }
+    ],
+    max_tokens: 128,
+    temperature: 0.1
+  }, { metadata });
+
+  const match = response.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('Model response did not contain JSON');
+  }
+
+  const parsed = ModelAnswerSchema.parse(JSON.parse(match[0]));
+  const supported = new Set<string>(SupportedLanguages);
+  const candidates = parsed.candidates
+    .map(candidate => ({ ...candidate, language: candidate.language.toLowerCase().trim() }))
+    .filter((candidate): candidate is LanguageCandidate => supported.has(candidate.language))
+    .filter((candidate, index, all) => all.findIndex(other => other.language === candidate.language) === index);
+
+  if (candidates.length === 0) {
+    throw new Error('Model response named no supported language');
+  }
+
+  return candidates
+    .map(candidate => ({ language: candidate.language, confidence: round(candidate.confidence) }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,266 @@
+/**
+ * Model Registry
+ *
+ * Keeps track of the Sea-lion models the tools can use, the aliases they
+ * accept for each (such as `v3.5`) and what each model supports. The built-in
+ * models are merged with the endpoint's /models listing and with overrides
+ * from a JSON file, so a new model can be used without a code change. Tool
+ * schemas read the registry whenever they are listed or validated.
+ */
+
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import { SeaLionModel } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface ModelCapabilities {
+  /**
+   * Whether the model supports thinking mode, writing its reasoning before the answer
+   */
+  thinking: boolean;
+  /**
+   * Context window in tokens, when known
+   */
+  context_length?: number;
+  /**
+   * Largest completion in tokens, when known; longer requests are capped
+   */
+  max_output_tokens?: number;
+}
+
+export interface RegisteredModel extends ModelCapabilities {
+  id: string;
+  aliases: string[];
+  description?: string;
+  /**
+   * Whether the endpoint listed the model at the last refresh; models are
+   * assumed available until the first refresh
+   */
+  available: boolean;
+  /**
+   * Where the model's details came from; configuration wins over the
+   * endpoint listing, which wins over the built-in defaults
+   */
+  source: 'builtin' | 'endpoint' | 'config';
+}
+
+/**
+ * A model reported by the endpoint's /models listing
+ */
+export interface ListedModel {
+  id: string;
+  /**
+   * Context window reported by the endpoint (vLLM's max_model_len)
+   */
+  context_length?: number;
+}
+
+type BuiltinModel = Omit<RegisteredModel, 'available' | 'source'>;
+
+// Built-in models, used until the endpoint listing or configuration says otherwise
+const BuiltinModels: BuiltinModel[] = [
+  {
+    id: SeaLionModel.V3_9B_IT,
+    aliases: ['v3'],
+    description: 'Gemma 2 9B instruction-tuned model for fast, direct answers',
+    thinking: false,
+    context_length: 8192,
+    max_output_tokens: 4096
+  },
+  {
+    id: SeaLionModel.V3_5_8B_R,
+    aliases: ['v3.5'],
+    description: 'Llama 3.1 8B reasoning model that thinks before answering, for more careful translation and analysis',
+    thinking: true,
+    context_length: 131072,
+    max_output_tokens: 4096
+  }
+];
+
+// Schema for a model configuration file
+const ModelFileSchema = z.object({
+  models: z.array(z.object({
+    id: z.string().min(1, 'Model id cannot be empty'),
+    aliases: z.array(z.string().regex(/^[A-Za-z0-9._-]{1,32}$/, 'Alias may only contain letters, digits, ., _ and -')).optional()
+      .describe('Names accepted for the model; an alias is taken away from any other model'),
+    description: z.string().optional(),
+    thinking: z.boolean().optional(),
+    context_length: z.number().int().positive().optional(),
+    max_output_tokens: z.number().int().positive().optional()
+  }).strict()).min(1, 'At least one model is required')
+}).strict();
+
+type ModelOverride = z.infer<typeof ModelFileSchema>['models'][number];
+
+export class ModelRegistry {
+  private overrides: ModelOverride[] = [];
+  private listing?: ListedModel[];
+  private models: RegisteredModel[];
+
+  constructor() {
+    this.models = this.build();
+  }
+
+  /**
+   * Apply model overrides from a JSON file
+   *
+   * An entry for a known model id replaces the fields it sets; an entry for
+   * another id adds a model. Throws when the file cannot be read or is invalid.
+   */
+  configure(filePath: string): void {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read model configuration ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    const parsed = ModelFileSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new Error(`Invalid model configuration ${filePath}: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+    }
+
+    this.overrides = parsed.data.models;
+    this.models = this.build();
+    logger.info('Model configuration loaded', { path: filePath, models: this.overrides.length });
+  }
+
+  /**
+   * Replace the endpoint listing the registry is built from
+   *
+   * Listed models that are not known yet are added without aliases or
+   * thinking mode; known models the endpoint did not list are kept but marked
+   * unavailable.
+   */
+  update(listing: ListedModel[]): void {
+    const previous = new Set(this.getAvailableIds());
+    this.listing = listing;
+    this.models = this.build();
+
+    const added = this.getAvailableIds().filter(id => !previous.has(id));
+    const missing = this.models.filter(model => !model.available).map(model => model.id);
+    logger.info('Model registry refreshed', { models: listing.length, added, missing });
+  }
+
+  /**
+   * List every registered model
+   */
+  list(): RegisteredModel[] {
+    return this.models.map(model => ({ ...model, aliases: [...model.aliases] }));
+  }
+
+  /**
+   * List the names tools accept: every alias, then every model id
+   */
+  names(): string[] {
+    return [...this.models.flatMap(model => model.aliases), ...this.models.map(model => model.id)];
+  }
+
+  /**
+   * Find a model by id or alias; ids take precedence
+   */
+  find(name: string): RegisteredModel | undefined {
+    return this.models.find(model => model.id === name) ??
+      this.models.find(model => model.aliases.includes(name));
+  }
+
+  /**
+   * Find a model by id or alias, throwing when there is none
+   */
+  resolve(name: string): RegisteredModel {
+    const model = this.find(name);
+    if (!model) {
+      throw new Error(`Unknown model: ${name}. Use one of: ${this.names().join(', ')}`);
+    }
+    return model;
+  }
+
+  /**
+   * Get the ids of the models the endpoint currently serves
+   */
+  getAvailableIds(): string[] {
+    return this.models.filter(model => model.available).map(model => model.id);
+  }
+
+  /**
+   * Check whether a model id or alias names an available model
+   */
+  isAvailable(name: string): boolean {
+    return this.find(name)?.available ?? false;
+  }
+
+  /**
+   * Build the model fields of a chat completion request
+   *
+   * Thinking mode is switched on or off only for models that support it;
+   * other models get no chat template arguments.
+   */
+  requestFields(name: string, thinking: boolean): { model: string; extra_body?: any } {
+    const model = this.resolve(name);
+    if (!model.thinking) {
+      return { model: model.id };
+    }
+    return {
+      model: model.id,
+      extra_body: {
+        chat_template_kwargs: {
+          thinking_mode: thinking ? 'on' : 'off'
+        }
+      }
+    };
+  }
+
+  private build(): RegisteredModel[] {
+    const models = new Map<string, RegisteredModel>();
+    for (const builtin of BuiltinModels) {
+      models.set(builtin.id, { ...builtin, aliases: [...builtin.aliases], available: true, source: 'builtin' });
+    }
+
+    if (this.listing) {
+      const listed = new Map(this.listing.map(model => [model.id, model]));
+      for (const model of models.values()) {
+        model.available = listed.has(model.id);
+      }
+      for (const entry of listed.values()) {
+        const model = models.get(entry.id) ??
+          { id: entry.id, aliases: [], thinking: false, available: true, source: 'endpoint' as const };
+        if (entry.context_length) {
+          model.context_length = entry.context_length;
+          model.source = 'endpoint';
+        }
+        models.set(entry.id, model);
+      }
+    }
+
+    for (const override of this.overrides) {
+      const fields = Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined));
+      const existing = models.get(override.id) ??
+        { id: override.id, aliases: [], thinking: false, available: !this.listing, source: 'config' as const };
+      if (override.aliases) {
+        for (const model of models.values()) {
+          model.aliases = model.aliases.filter(alias => !override.aliases?.includes(alias));
+        }
+      }
+      models.set(override.id, { ...existing, ...fields, aliases: [...(override.aliases ?? existing.aliases)], source: 'config' });
+    }
+
+    return Array.from(models.values());
+  }
+}
+
+export const modelRegistry = new ModelRegistry();
+
+/**
+ * Create the schema for a tool's model argument
+ *
+ * The accepted names are read from the registry each time the schema is used,
+ * so models added by a refresh are accepted and listed without a restart.
+ */
+export function createModelSchema(defaultModel: string) {
+  return z.lazy(() => {
+    const names = modelRegistry.names();
+    return z.enum(names as [string, ...string[]], {
+      errorMap: () => ({ message: `Model must be one of: ${names.join(', ')}` })
+    });
+  }).default(defaultModel);
+}
@@ -0,0 +1,336 @@
+/**
+ * PII Detection and Redaction
+ *
+ * Finds personal data common in Southeast Asian customer text: national ID
+ * numbers, phone numbers, emails and payment cards. ID numbers are only
+ * reported when they validate: by checksum where the scheme has one
+ * (Singapore NRIC/FIN, Thai national ID, cards), otherwise by their embedded
+ * birth date and region code (Malaysian MyKad, Indonesian NIK).
+ *
+ * PiiRedaction swaps detected entities for placeholders before text is sent
+ * to the Sea-lion API and puts the original values back in the response.
+ */
+
+export const PiiTypes = [
+  'email',
+  'sg_nric',
+  'my_mykad',
+  'id_nik',
+  'th_national_id',
+  'sg_phone',
+  'my_phone',
+  'ph_phone',
+  'credit_card'
+] as const;
+
+export type PiiType = typeof PiiTypes[number];
+
+export interface PiiEntity {
+  type: PiiType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface PiiPattern {
+  type: PiiType;
+  pattern: RegExp;
+  validate?: (value: string) => boolean;
+}
+
+// Patterns in priority order; an earlier type wins when matches overlap
+const PiiPatterns: PiiPattern[] = [
+  {
+    type: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+  },
+  {
+    type: 'sg_nric',
+    pattern: /\b[STFGMstfgm]\d{7}[A-Za-z]\b/g,
+    validate: isValidNric
+  },
+  {
+    type: 'th_national_id',
+    pattern: /(?<![\d-])\d[- ]?\d{4}[- ]?\d{5}[- ]?\d{2}[- ]?\d(?![\d-])/g,
+    validate: isValidThaiId
+  },
+  {
+    type: 'my_mykad',
+    pattern: /(?<![\d-])\d{6}-?\d{2}-?\d{4}(?![\d-])/g,
+    validate: isValidMyKad
+  },
+  {
+    type: 'id_nik',
+    pattern: /(?<!\d)\d{16}(?!\d)/g,
+    validate: isValidNik
+  },
+  {
+    type: 'credit_card',
+    pattern: /(?<![\d-])\d{4}(?:[ -]?\d{4}){2}[ -]?\d{1,7}(?![\d-])/g,
+    validate: isValidCardNumber
+  },
+  {
+    type: 'sg_phone',
+    pattern: /(?<![\w+])\+65[ -]?[3689]\d{3}[ -]?\d{4}(?!\d)/g
+  },
+  {
+    type: 'my_phone',
+    pattern: /(?<![\w+])(?:\+?60|0)1\d[ -]?\d{3,4}[ -]?\d{4}(?!\d)/g
+  },
+  {
+    type: 'ph_phone',
+    pattern: /(?<![\w+])(?:\+63|0)[ -]?9\d{2}[ -]?\d{3}[ -]?\d{4}(?!\d)/g
+  }
+];
+
+// Valid MyKad place-of-birth codes (states and foreign-born codes)
+const MYKAD_PLACE_CODES = new Set([
+  ...range(1, 16), ...range(21, 59), ...range(60, 68), 71, 72,
+  ...range(74, 79), ...range(82, 93), 98, 99
+]);
+
+// Indonesian province codes used in the first two NIK digits
+const NIK_PROVINCE_CODES = new Set([
+  11, 12, 13, 14, 15, 16, 17, 18, 19, 21,
+  31, 32, 33, 34, 35, 36,
+  51, 52, 53,
+  61, 62, 63, 64, 65,
+  71, 72, 73, 74, 75, 76,
+  81, 82, 91, 92, 93, 94, 95, 96, 97
+]);
+
+/**
+ * Find PII in a text, optionally limited to some types
+ */
+export function detectPii(text: string, types: readonly PiiType[] = PiiTypes): PiiEntity[] {
+  const wanted = new Set(types);
+  const entities: PiiEntity[] = [];
+
+  for (const { type, pattern, validate } of PiiPatterns) {
+    if (!wanted.has(type)) {
+      continue;
+    }
+    for (const match of text.matchAll(pattern)) {
+      if (validate && !validate(match[0])) {
+        continue;
+      }
+      const start = match.index ?? 0;
+      entities.push({ type, value: match[0], start, end: start + match[0].length });
+    }
+  }
+
+  // Keep the first-listed type where matches overlap
+  const priority = (type: PiiType) => PiiPatterns.findIndex(entry => entry.type === type);
+  const kept: PiiEntity[] = [];
+  for (const entity of entities.sort((a, b) => priority(a.type) - priority(b.type))) {
+    if (!kept.some(other => entity.start < other.end && other.start < entity.end)) {
+      kept.push(entity);
+    }
+  }
+
+  return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replaces PII with numbered placeholders and restores it afterwards
+ *
+ * One instance covers a single request, so a value that appears in several
+ * messages gets the same placeholder each time.
+ */
+export class PiiRedaction {
+  private types: readonly PiiType[];
+  private values: Map<string, string>;
+  private placeholders: Map<string, string>;
+  private counters: Map<PiiType, number>;
+
+  constructor(types: readonly PiiType[] = PiiTypes) {
+    this.types = types;
+    this.values = new Map();
+    this.placeholders = new Map();
+    this.counters = new Map();
+  }
+
+  /**
+   * Number of distinct values replaced so far
+   */
+  get count(): number {
+    return this.values.size;
+  }
+
+  /**
+   * Replace PII in a text with placeholders such as [EMAIL_1]
+   */
+  redact(text: string): string {
+    let result = '';
+    let position = 0;
+
+    for (const entity of detectPii(text, this.types)) {
+      result += text.slice(position, entity.start) + this.placeholderFor(entity);
+      position = entity.end;
+    }
+
+    return result + text.slice(position);
+  }
+
+  /**
+   * Put the original values back in place of placeholders
+   */
+  restore(text: string): string {
+    if (this.values.size === 0) {
+      return text;
+    }
+    return text.replace(/\[([A-Z_]+_\d+)\]/g, (placeholder) => this.values.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Restore a partial stream, holding back a trailing placeholder that may
+   * still be incomplete
+   */
+  restorePartial(text: string): string {
+    if (this.values.size === 0) {
+      return text;
+    }
+    const partial = text.match(/\[[A-Z_0-9]*$/);
+    return this.restore(partial ? text.slice(0, partial.index) : text);
+  }
+
+  /**
+   * List placeholders that do not appear in a model response
+   */
+  findMissing(text: string): string[] {
+    return Array.from(this.values.keys()).filter(placeholder => !text.includes(placeholder));
+  }
+
+  private placeholderFor(entity: PiiEntity): string {
+    const key = `${entity.type}:${entity.value}`;
+    const existing = this.placeholders.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const next = (this.counters.get(entity.type) ?? 0) + 1;
+    this.counters.set(entity.type, next);
+    const placeholder = `[${entity.type.toUpperCase()}_${next}]`;
+    this.placeholders.set(key, placeholder);
+    this.values.set(placeholder, entity.value);
+    return placeholder;
+  }
+}
+
+/**
+ * Validate a Singapore NRIC or FIN check letter
+ */
+export function isValidNric(value: string): boolean {
+  const id = value.toUpperCase();
+  const weights = [2, 7, 6, 5, 4, 3, 2];
+  let sum = weights.reduce((total, weight, i) => total + weight * Number(id[i + 1]), 0);
+
+  const prefix = id[0];
+  if (prefix === 'T' || prefix === 'G') {
+    sum += 4;
+  } else if (prefix === 'M') {
+    sum += 3;
+  }
+
+  const letters = prefix === 'S' || prefix === 'T'
+    ? 'JZIHGFEDCBA'
+    : prefix === 'F' || prefix === 'G'
+      ? 'XWUTRQPNMLK'
+      : 'XWUTRQPNJLK';
+
+  return letters[sum % 11] === id[8];
+}
+
+/**
+ * Validate a Thai national ID check digit
+ */
+export function isValidThaiId(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 13 || digits[0] === '0') {
+    return false;
+  }
+  const sum = Array.from(digits.slice(0, 12)).reduce((total, digit, i) => total + Number(digit) * (13 - i), 0);
+  return (11 - (sum % 11)) % 10 === Number(digits[12]);
+}
+
+/**
+ * Validate a Malaysian MyKad number's birth date and place-of-birth code
+ */
+export function isValidMyKad(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 12) {
+    return false;
+  }
+  const month = Number(digits.slice(2, 4));
+  const day = Number(digits.slice(4, 6));
+  return isValidDayOfMonth(month, day) && MYKAD_PLACE_CODES.has(Number(digits.slice(6, 8)));
+}
+
+/**
+ * Validate an Indonesian NIK's province code and birth date
+ *
+ * Women's NIKs add 40 to the day of birth.
+ */
+export function isValidNik(value: string): boolean {
+  if (!/^\d{16}$/.test(value) || !NIK_PROVINCE_CODES.has(Number(value.slice(0, 2)))) {
+    return false;
+  }
+  const rawDay = Number(value.slice(6, 8));
+  const day = rawDay > 40 ? rawDay - 40 : rawDay;
+  const month = Number(value.slice(8, 10));
+  return isValidDayOfMonth(month, day) && value.slice(12) !== '0000';
+}
+
+/**
+ * Validate a payment card number with the Luhn checksum
+ */
+export function isValidCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Read the PII types to redact before sending from SEALION_PII_REDACTION
+ * and SEALION_PII_TYPES; returns undefined when redaction is off
+ */
+export function getRedactionTypesFromEnv(env: NodeJS.ProcessEnv = process.env): PiiType[] | undefined {
+  const enabled = (env.SEALION_PII_REDACTION || 'off').toLowerCase();
+  if (enabled === 'off' || enabled === 'false' || enabled === '0') {
+    return undefined;
+  }
+
+  if (!env.SEALION_PII_TYPES) {
+    return [...PiiTypes];
+  }
+
+  const types = env.SEALION_PII_TYPES.split(',').map(type => type.trim().toLowerCase()).filter(Boolean);
+  const unknown = types.filter(type => !(PiiTypes as readonly string[]).includes(type));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown PII types in SEALION_PII_TYPES: ${unknown.join(', ')}. Use: ${PiiTypes.join(', ')}`);
+  }
+  return types as PiiType[];
+}
+
+function isValidDayOfMonth(month: number, day: number): boolean {
+  const daysInMonth = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth[month - 1];
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
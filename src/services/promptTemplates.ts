@@ -0,0 +1,162 @@
+/**
+ * Prompt Templates
+ *
+ * Loads user-defined MCP prompts from JSON files in a local directory, so
+ * teams can share their own task prompts next to the built-in ones. Each file
+ * is one prompt, named by its file name without extension. Messages refer to
+ * the prompt's arguments as {{name}}, and may keep text only when an argument
+ * is given with {{#name}}...{{/name}}.
+ */
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { z } from 'zod';
+import { PromptDefinition } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { findTemplateProblems, renderTemplate } from '../utils/templates.js';
+
+// Prompt names are file names, so only safe characters are allowed
+const PROMPT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Schema for a prompt template file
+const PromptTemplateFileSchema = z.object({
+  description: z.string().min(1, 'Description cannot be empty'),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z0-9_]{1,64}$/, 'Argument name may only contain letters, digits and _'),
+    description: z.string().optional(),
+    required: z.boolean().default(false)
+  }).strict()).default([]),
+  messages: z.array(z.object({
+    role: z.enum(['user', 'assistant']).default('user'),
+    text: z.string().min(1, 'Message text cannot be empty')
+  }).strict()).min(1, 'At least one message is required')
+}).strict().superRefine((template, ctx) => {
+  const names = new Set(template.arguments.map(arg => arg.name));
+  if (names.size !== template.arguments.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['arguments'], message: 'Argument names must be unique' });
+  }
+  template.messages.forEach((message, index) => {
+    for (const problem of findTemplateProblems(message.text, names)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['messages', index, 'text'], message: problem });
+    }
+  });
+});
+
+type PromptTemplateFile = z.infer<typeof PromptTemplateFileSchema>;
+
+interface LoadedTemplate {
+  prompt: PromptDefinition;
+  mtimeMs: number;
+}
+
+export class PromptTemplateStore {
+  private directory: string;
+  private templates: Map<string, LoadedTemplate>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.templates = new Map();
+  }
+
+  /**
+   * Load every template in the directory, reloading files that have changed
+   *
+   * Invalid files are logged and left out.
+   */
+  list(): PromptDefinition[] {
+    let files: string[];
+    try {
+      files = readdirSync(this.directory).filter(file => extname(file) === '.json').sort();
+    } catch {
+      return [];
+    }
+
+    const prompts: PromptDefinition[] = [];
+    for (const file of files) {
+      const name = file.slice(0, -extname(file).length);
+      if (!PROMPT_NAME_PATTERN.test(name)) {
+        continue;
+      }
+      try {
+        prompts.push(this.load(name, join(this.directory, file)));
+      } catch (error) {
+        logger.warn('Skipping invalid prompt template', { file, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+    return prompts;
+  }
+
+  /**
+   * Get a template by name, or undefined when there is no such file
+   */
+  get(name: string): PromptDefinition | undefined {
+    if (!PROMPT_NAME_PATTERN.test(name)) {
+      return undefined;
+    }
+
+    const filePath = join(this.directory, `${name}.json`);
+    try {
+      if (!statSync(filePath).isFile()) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+    return this.load(name, filePath);
+  }
+
+  private load(name: string, filePath: string): PromptDefinition {
+    const mtimeMs = statSync(filePath).mtimeMs;
+    const cached = this.templates.get(name);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.prompt;
+    }
+
+    const prompt = toPromptDefinition(name, loadTemplateFile(filePath));
+    this.templates.set(name, { prompt, mtimeMs });
+    logger.info('Prompt template loaded', { name });
+    return prompt;
+  }
+}
+
+/**
+ * Read and validate a prompt template file
+ */
+function loadTemplateFile(filePath: string): PromptTemplateFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read prompt template ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const parsed = PromptTemplateFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid prompt template ${filePath}: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Turn a template file into a prompt whose arguments are plain strings
+ *
+ * Optional arguments that were left out render as empty text.
+ */
+function toPromptDefinition(name: string, template: PromptTemplateFile): PromptDefinition {
+  const shape = Object.fromEntries(template.arguments.map(arg => {
+    const field = arg.required
+      ? z.string().min(1, `${arg.name} cannot be empty`)
+      : z.string().optional();
+    return [arg.name, arg.description ? field.describe(arg.description) : field];
+  }));
+
+  return {
+    name,
+    description: template.description,
+    argumentsSchema: z.object(shape).strict(),
+    render: (args: Record<string, string | undefined>) => template.messages.map(message => ({
+      role: message.role,
+      text: renderTemplate(message.text, args)
+    }))
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * Rate Limit Policy
+ *
+ * Applies the server's rate limits to tool calls: a global token bucket, an
+ * optional bucket per session or client, and the per-key limit from the auth
+ * key file. Calls are weighted by their tool's cost; a free call skips the
+ * global bucket but still counts as one call against the session and client
+ * limits. When a limit is hit the caller is either rejected with a
+ * retry-after time or, if it asked to wait, queued until tokens are available.
+ * Queued calls are served in order: no call takes tokens from a limiter that a
+ * call queued ahead of it is waiting for.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { RateLimitConfig } from '../types/index.js';
+import { TokenBucket } from '../utils/rateLimiter.js';
+import { logger } from '../utils/logger.js';
+import { RateLimitMode } from '../utils/config.js';
+
+/**
+ * What the policy needs from a limiter; implemented by TokenBucket
+ */
+export interface Limiter {
+  allowRequest(cost?: number): boolean;
+  wouldAllowRequest(cost?: number): boolean;
+  getTimeUntilReset(cost?: number): number;
+}
+
+export type RateLimitScope = 'global' | 'session' | 'client';
+
+export interface RateLimitPolicyOptions {
+  global: RateLimitConfig;
+  /**
+   * Bucket applied to each session or authenticated client; disabled when unset
+   */
+  session?: RateLimitConfig;
+  /**
+   * Maximum number of calls waiting for tokens at once
+   */
+  queueSize: number;
+  /**
+   * Longest a queued call may wait before it is rejected
+   */
+  maxWaitMs: number;
+  defaultMode: RateLimitMode;
+}
+
+export interface RateLimitRequest {
+  cost: number;
+  owner: string;
+  clientLimiter?: Limiter;
+  mode?: RateLimitMode;
+  signal?: AbortSignal;
+}
+
+/**
+ * Thrown when a call is rejected by a rate limit
+ */
+export class RateLimitExceededError extends Error {
+  readonly retryAfterMs: number;
+  readonly scope: RateLimitScope;
+
+  constructor(scope: RateLimitScope, retryAfterMs: number, reason?: string) {
+    const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    super(`${reason || describeScope(scope)} Retry after ${seconds} second${seconds === 1 ? '' : 's'}.`);
+    this.name = 'RateLimitExceededError';
+    this.retryAfterMs = retryAfterMs;
+    this.scope = scope;
+  }
+}
+
+interface ScopedLimiter {
+  scope: RateLimitScope;
+  limiter: Limiter;
+}
+
+interface Waiter {
+  limiters: ScopedLimiter[];
+  cost: number;
+}
+
+interface SessionBucket {
+  bucket: TokenBucket;
+  lastUsed: number;
+}
+
+export class RateLimitPolicy {
+  private options: RateLimitPolicyOptions;
+  private globalBucket: TokenBucket;
+  private sessionBuckets: Map<string, SessionBucket>;
+  private queue: Waiter[];
+
+  constructor(options: RateLimitPolicyOptions) {
+    this.options = options;
+    this.globalBucket = new TokenBucket(options.global.maxRequests, options.global.windowMs);
+    this.sessionBuckets = new Map();
+    this.queue = [];
+  }
+
+  /**
+   * Take tokens for a call, waiting for them if the call's mode allows
+   */
+  async acquire(request: RateLimitRequest): Promise<void> {
+    const limiters = this.getLimiters(request);
+    const cost = Math.max(request.cost, 1);
+    if (this.tryConsume(limiters, cost, this.queue)) {
+      return;
+    }
+
+    const mode = request.mode || this.options.defaultMode;
+    if (mode === 'reject') {
+      throw this.exceeded(limiters, cost, this.queue);
+    }
+
+    if (this.queue.length >= this.options.queueSize) {
+      const { scope, retryAfterMs } = this.getBlocking(limiters, cost, this.queue);
+      throw new RateLimitExceededError(scope, retryAfterMs, 'Rate limit exceeded and the wait queue is full.');
+    }
+
+    const deadline = Date.now() + this.options.maxWaitMs;
+    const waiter: Waiter = { limiters, cost };
+    this.queue.push(waiter);
+    logger.debug('Queued tool call for rate limit', { owner: request.owner, cost, waiting: this.queue.length });
+
+    try {
+      for (;;) {
+        const { retryAfterMs } = this.getBlocking(limiters, cost, this.getAhead(waiter));
+        if (Date.now() + retryAfterMs > deadline) {
+          throw this.exceeded(limiters, cost, this.getAhead(waiter));
+        }
+
+        await sleep(Math.max(retryAfterMs, 10), undefined, { signal: request.signal });
+
+        if (this.tryConsume(limiters, cost, this.getAhead(waiter))) {
+          return;
+        }
+      }
+    } finally {
+      this.queue.splice(this.queue.indexOf(waiter), 1);
+    }
+  }
+
+  /**
+   * Get the calls queued ahead of a waiting call
+   */
+  private getAhead(waiter: Waiter): Waiter[] {
+    return this.queue.slice(0, this.queue.indexOf(waiter));
+  }
+
+  /**
+   * Collect the limiters that apply to a call; free calls skip the global bucket
+   */
+  private getLimiters(request: RateLimitRequest): ScopedLimiter[] {
+    const limiters: ScopedLimiter[] = [];
+    if (request.cost > 0) {
+      limiters.push({ scope: 'global', limiter: this.globalBucket });
+    }
+
+    const session = this.getSessionBucket(request.owner);
+    if (session) {
+      limiters.push({ scope: 'session', limiter: session });
+    }
+
+    if (request.clientLimiter) {
+      limiters.push({ scope: 'client', limiter: request.clientLimiter });
+    }
+
+    return limiters;
+  }
+
+  /**
+   * Consume from every limiter, or from none if any would refuse or a call
+   * queued ahead is waiting for one of them
+   */
+  private tryConsume(limiters: ScopedLimiter[], cost: number, ahead: Waiter[]): boolean {
+    if (limiters.some(({ limiter }) => getQueuedCost(ahead, limiter) > 0)) {
+      return false;
+    }
+    if (!limiters.every(({ limiter }) => limiter.wouldAllowRequest(cost))) {
+      return false;
+    }
+    for (const { limiter } of limiters) {
+      limiter.allowRequest(cost);
+    }
+    return true;
+  }
+
+  /**
+   * Find the limiter that will take longest to admit the call, after the calls queued ahead of it
+   */
+  private getBlocking(
+    limiters: ScopedLimiter[],
+    cost: number,
+    ahead: Waiter[]
+  ): { scope: RateLimitScope; retryAfterMs: number } {
+    return limiters
+      .map(({ scope, limiter }) => {
+        const needed = cost + getQueuedCost(ahead, limiter);
+        return {
+          scope,
+          retryAfterMs: limiter.wouldAllowRequest(needed) ? 0 : Math.max(limiter.getTimeUntilReset(needed), 1)
+        };
+      })
+      .reduce((a, b) => (b.retryAfterMs > a.retryAfterMs ? b : a));
+  }
+
+  private exceeded(limiters: ScopedLimiter[], cost: number, ahead: Waiter[]): RateLimitExceededError {
+    const { scope, retryAfterMs } = this.getBlocking(limiters, cost, ahead);
+    logger.warn('Rate limit exceeded', { scope, retryAfterMs, cost });
+    return new RateLimitExceededError(scope, retryAfterMs);
+  }
+
+  /**
+   * Get the bucket for a session or client, pruning idle full buckets
+   */
+  private getSessionBucket(owner: string): TokenBucket | undefined {
+    const config = this.options.session;
+    if (!config) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    for (const [key, entry] of this.sessionBuckets) {
+      if (now - entry.lastUsed > config.windowMs && entry.bucket.isFull()) {
+        this.sessionBuckets.delete(key);
+      }
+    }
+
+    let entry = this.sessionBuckets.get(owner);
+    if (!entry) {
+      entry = { bucket: new TokenBucket(config.maxRequests, config.windowMs), lastUsed: now };
+      this.sessionBuckets.set(owner, entry);
+    }
+    entry.lastUsed = now;
+    return entry.bucket;
+  }
+}
+
+/**
+ * Total cost of the queued calls waiting for a limiter
+ */
+function getQueuedCost(waiters: Waiter[], limiter: Limiter): number {
+  return waiters
+    .filter(waiter => waiter.limiters.some(entry => entry.limiter === limiter))
+    .reduce((total, waiter) => total + waiter.cost, 0);
+}
+
+function describeScope(scope: RateLimitScope): string {
+  switch (scope) {
+    case 'global':
+      return 'Rate limit exceeded.';
+    case 'session':
+      return 'Session rate limit exceeded.';
+    case 'client':
+      return 'Client rate limit exceeded.';
+  }
+}
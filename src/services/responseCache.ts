@@ -0,0 +1,203 @@
+/**
+ * Response Cache
+ *
+ * Opt-in cache for Sea-lion completions, keyed by a hash of the request
+ * (model, messages, temperature, max_tokens and extra_body). Backed by an
+ * in-memory LRU or by JSON files on disk, with a TTL on every entry.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Per-call cache behaviour: 'bypass' neither reads nor writes the cache,
+ * 'refresh' skips the lookup but stores the new response
+ */
+export type CacheMode = 'default' | 'bypass' | 'refresh';
+
+/**
+ * How a call interacted with the cache, as reported in tool results
+ */
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'refresh';
+
+export interface CacheBackend {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+}
+
+interface CacheEntry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-memory LRU backend
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries: Map<string, CacheEntry>;
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 500) {
+    this.entries = new Map();
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * On-disk backend storing one JSON file per entry
+ */
+export class DiskCacheBackend implements CacheBackend {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const filePath = this.filePath(key);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(filePath, 'utf8'));
+    } catch {
+      return undefined;
+    }
+
+    if (typeof entry.value !== 'string' || entry.expiresAt <= Date.now()) {
+      await rm(filePath, { force: true });
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const entry: CacheEntry = { value, expiresAt: Date.now() + ttlMs };
+    await writeFile(this.filePath(key), JSON.stringify(entry), 'utf8');
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+export class ResponseCache {
+  private backend: CacheBackend;
+  private ttlMs: number;
+
+  constructor(backend: CacheBackend, ttlMs: number) {
+    this.backend = backend;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Create a cache from environment settings, or undefined if caching is off
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ResponseCache | undefined {
+    const kind = env.SEALION_CACHE?.toLowerCase();
+    if (!kind || kind === 'off') {
+      return undefined;
+    }
+
+    const ttlMs = parseInt(env.SEALION_CACHE_TTL_MS || '3600000', 10) || 3600000;
+    if (kind === 'memory') {
+      const maxEntries = parseInt(env.SEALION_CACHE_MAX_ENTRIES || '500', 10) || 500;
+      logger.info('Response cache enabled', { backend: 'memory', ttlMs, maxEntries });
+      return new ResponseCache(new MemoryCacheBackend(maxEntries), ttlMs);
+    }
+    if (kind === 'disk') {
+      const directory = env.SEALION_CACHE_DIR || path.join('.cache', 'sealion');
+      logger.info('Response cache enabled', { backend: 'disk', ttlMs, directory });
+      return new ResponseCache(new DiskCacheBackend(directory), ttlMs);
+    }
+
+    throw new Error(`Unsupported SEALION_CACHE backend: ${kind}. Use memory, disk or off.`);
+  }
+
+  /**
+   * Compute the cache key for a chat completion request
+   */
+  keyFor(request: {
+    model: string;
+    messages: unknown;
+    temperature?: number;
+    max_tokens?: number;
+    extra_body?: unknown;
+  }): string {
+    return createHash('sha256')
+      .update(stableStringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.max_tokens,
+        extra_body: request.extra_body
+      }))
+      .digest('hex');
+  }
+
+  /**
+   * Look up a response; backend failures are logged and treated as misses
+   */
+  async get(key: string): Promise<string | undefined> {
+    try {
+      return await this.backend.get(key);
+    } catch (error) {
+      logger.warn('Response cache read failed:', { error: error instanceof Error ? error.message : String(error) });
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response; backend failures are logged and ignored
+   */
+  async set(key: string, value: string): Promise<void> {
+    try {
+      await this.backend.set(key, value, this.ttlMs);
+    } catch (error) {
+      logger.warn('Response cache write failed:', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+}
+
+/**
+ * JSON.stringify with object keys sorted so equal requests hash equally
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
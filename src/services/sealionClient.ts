@@ -3,33 +3,84 @@
  * 
  * This service handles all communication with the Sea-lion API endpoints.
  * It provides a clean interface for text generation and other Sea-lion capabilities.
+ * Requests go through the configured inference backends, which fail over
+ * from one OpenAI-compatible endpoint to the next.
  */
 
-import OpenAI from 'openai';
+import type { ChatCompletionCreateParamsStreaming } from 'openai/resources/chat/completions';
 import { logger } from '../utils/logger.js';
-import { SeaLionModel } from '../types/index.js';
+import { SeaLionModel, ToolResultMetadata } from '../types/index.js';
+import { CacheMode, ResponseCache } from './responseCache.js';
+import { modelRegistry } from './modelRegistry.js';
+import { BackendPool, BackendStatus, recordBackends } from './inferenceBackends.js';
+import { PiiRedaction, PiiType, getRedactionTypesFromEnv } from './piiDetector.js';
+import { joinReasoning, splitReasoning } from '../utils/reasoning.js';
+import {
+  SeaLionError,
+  SeaLionEmptyContentError,
+  SeaLionRateLimitError,
+  SeaLionUpstreamError,
+  classifyError
+} from './sealionErrors.js';
+
+// Longest wait between retries, including waits requested via Retry-After
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Parameters accepted by the text generation methods
+ */
+export interface GenerateTextParams {
+  model: string;
+  messages: Array<{
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+  }>;
+  max_tokens?: number;
+  temperature?: number;
+  extra_body?: any;
+}
+
+/**
+ * Per-call options for the text generation methods
+ */
+export interface GenerateTextOptions {
+  cache?: CacheMode;
+  /**
+   * Cache the response even when the temperature is above 0, for tools whose
+   * answers are meant to be stable, such as translation; other calls are only
+   * cached when they are deterministic
+   */
+  cacheable?: boolean;
+  /**
+   * Receives details about how the call was served, such as cache status
+   */
+  metadata?: ToolResultMetadata;
+  /**
+   * Receives the reasoning trace when thinking mode produced one
+   */
+  onReasoning?: (reasoning: string) => void;
+}
 
 export class SeaLionClient {
-  private client: OpenAI;
-  private apiKey: string;
-  private baseURL: string;
+  private backends: BackendPool;
+  private cache?: ResponseCache;
+  private redactionTypes?: PiiType[];
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
 
   constructor() {
     // Get configuration from environment variables
-    this.apiKey = process.env.SEALION_API_KEY || process.env.API_KEY || '';
-    this.baseURL = process.env.SEALION_BASE_URL || 'https://api.sea-lion.ai/v1';
+    this.maxRetries = parseInt(process.env.SEALION_MAX_RETRIES || '3', 10) || 0;
+    this.retryBaseDelayMs = parseInt(process.env.SEALION_RETRY_BASE_DELAY_MS || '500', 10) || 500;
 
-    if (!this.apiKey) {
-      logger.warn('Sea-lion API key not found in environment variables. Please set SEALION_API_KEY or API_KEY.');
-    }
+    this.backends = BackendPool.fromEnv();
+    this.cache = ResponseCache.fromEnv();
+    this.redactionTypes = getRedactionTypesFromEnv();
 
-    // Initialize OpenAI client with Sea-lion endpoint
-    this.client = new OpenAI({
-      apiKey: this.apiKey,
-      baseURL: this.baseURL
+    logger.info('Sea-lion client initialized', {
+      backends: this.backends.names(),
+      ...(this.redactionTypes && { piiRedaction: this.redactionTypes })
     });
-
-    logger.info('Sea-lion client initialized', { baseURL: this.baseURL });
   }
 
   /**
@@ -37,10 +88,6 @@ export class SeaLionClient {
    */
   async testConnection(): Promise<void> {
     try {
-      if (!this.apiKey) {
-        throw new Error('API key is required for Sea-lion connection');
-      }
-
       // Test with a simple request
       await this.generateText({
         model: SeaLionModel.V3_9B_IT,
@@ -61,80 +108,327 @@ export class SeaLionClient {
     }
   }
 
+  /**
+   * Refresh the model registry from the backends' /models listings
+   */
+  async refreshModels(): Promise<void> {
+    const listing = await this.withRetry('Model listing', async () => this.backends.listModels(this.getRequestOptions()));
+    modelRegistry.update(listing);
+  }
+
+  /**
+   * Report the health of each inference backend
+   */
+  getBackendStatus(): BackendStatus[] {
+    return this.backends.status();
+  }
+
   /**
    * Generate text using Sea-lion models
+   *
+   * Returns only the final answer; a reasoning trace from thinking mode is
+   * passed to options.onReasoning instead.
    */
-  async generateText(params: {
-    model: string;
-    messages: Array<{
-      role: 'system' | 'user' | 'assistant';
-      content: string;
-    }>;
-    max_tokens?: number;
-    temperature?: number;
-    extra_body?: any;
-  }): Promise<string> {
-    try {
-      logger.debug('Making text generation request', { 
-        model: params.model, 
-        messageCount: params.messages.length 
-      });
+  async generateText(params: GenerateTextParams, options: GenerateTextOptions = {}): Promise<string> {
+    const redaction = this.redactionTypes && new PiiRedaction(this.redactionTypes);
+    const requestParams = this.buildRequestParams(redaction ? this.redactParams(params, redaction) : params);
+
+    const raw = await this.withCache(requestParams, options, async () => this.withRetry('Text generation', async (attempt) => {
+      const { result, backend } = await this.backends.run(requestParams.model, async (client, model) => {
+        logger.debug('Making text generation request', { 
+          model, 
+          messageCount: params.messages.length 
+        });
+
+        const completion = await client.chat.completions.create({ ...requestParams, model }, this.getRequestOptions());
+
+        const message: any = completion.choices[0]?.message;
+        const content = joinReasoning(message?.reasoning_content || '', message?.content || '');
+        
+        if (!splitReasoning(content).answer) {
+          throw new SeaLionEmptyContentError();
+        }
+
+        logger.debug('Text generation successful', { 
+          responseLength: content.length,
+          model 
+        });
+
+        return content;
+      }, attempt);
+
+      recordBackends(options.metadata, [backend]);
+      return result;
+    }));
+
+    return this.finishResponse(this.restorePii(raw, redaction, options), options);
+  }
+
+  /**
+   * Generate text using Sea-lion models in stream mode
+   *
+   * Calls onChunk with each delta of the final answer and the answer
+   * accumulated so far, then resolves with the complete answer once the
+   * stream ends. Reasoning is not streamed. Failures are only retried
+   * before the first chunk has been delivered.
+   */
+  async generateTextStream(
+    params: GenerateTextParams,
+    onChunk: (delta: string, text: string) => void | Promise<void>,
+    options: GenerateTextOptions = {}
+  ): Promise<string> {
+    const redaction = this.redactionTypes && new PiiRedaction(this.redactionTypes);
+    const requestParams = this.buildRequestParams(redaction ? this.redactParams(params, redaction) : params);
 
-      const requestParams: any = {
-        model: params.model,
-        messages: params.messages,
-        max_tokens: params.max_tokens || 512,
-        temperature: params.temperature || 0.7
-      };
+    const produce = async () => this.withRetry('Streaming text generation', async (attempt) => {
+      const { result, backend } = await this.backends.run(requestParams.model, async (client, model) => {
+        logger.debug('Making streaming text generation request', { 
+          model, 
+          messageCount: params.messages.length 
+        });
+
+        const stream = await client.chat.completions.create({
+          ...requestParams,
+          model,
+          stream: true
+        } as ChatCompletionCreateParamsStreaming, this.getRequestOptions());
+
+        let content = '';
+        let reasoning = '';
+        let answer = '';
+        for await (const chunk of stream) {
+          const delta: any = chunk.choices[0]?.delta;
+          if (delta?.reasoning_content) {
+            reasoning += delta.reasoning_content;
+          }
+          if (delta?.content) {
+            content += delta.content;
+            const partialAnswer = splitReasoning(content).answer;
+            const nextAnswer = redaction ? redaction.restorePartial(partialAnswer) : partialAnswer;
+            if (nextAnswer !== answer) {
+              attempt.committed = true;
+              await onChunk(nextAnswer.startsWith(answer) ? nextAnswer.slice(answer.length) : nextAnswer, nextAnswer);
+              answer = nextAnswer;
+            }
+          }
+        }
+
+        const full = joinReasoning(reasoning, content);
+        if (!splitReasoning(full).answer) {
+          throw new SeaLionEmptyContentError();
+        }
+
+        logger.debug('Streaming text generation successful', { 
+          responseLength: full.length,
+          model 
+        });
+
+        return full;
+      }, attempt);
+
+      recordBackends(options.metadata, [backend]);
+      return result;
+    });
+
+    // A cached response is delivered as a single chunk
+    const raw = await this.withCache(requestParams, options, produce, async (text) => {
+      const answer = splitReasoning(redaction ? redaction.restore(text) : text).answer;
+      await onChunk(answer, answer);
+    });
 
-      // Add extra_body if provided (for v3.5 thinking mode)
-      if (params.extra_body) {
-        requestParams.extra_body = params.extra_body;
+    return this.finishResponse(this.restorePii(raw, redaction, options), options);
+  }
+
+  /**
+   * Replace PII in the request messages with placeholders
+   */
+  private redactParams(params: GenerateTextParams, redaction: PiiRedaction): GenerateTextParams {
+    const redacted = {
+      ...params,
+      messages: params.messages.map(message => ({ ...message, content: redaction.redact(message.content) }))
+    };
+    if (redaction.count > 0) {
+      logger.debug('Redacted PII before sending', { entities: redaction.count });
+    }
+    return redacted;
+  }
+
+  /**
+   * Put redacted PII back into a completion
+   *
+   * Records the number of redacted values in options.metadata.
+   */
+  private restorePii(raw: string, redaction: PiiRedaction | undefined, options: GenerateTextOptions): string {
+    if (!redaction || redaction.count === 0) {
+      return raw;
+    }
+
+    const missing = redaction.findMissing(raw);
+    if (missing.length > 0) {
+      logger.warn('Model response dropped PII placeholders', { missing });
+    }
+    if (options.metadata) {
+      options.metadata.pii_redacted = redaction.count;
+    }
+    return redaction.restore(raw);
+  }
+
+  /**
+   * Separate the reasoning trace from a raw completion
+   */
+  private finishResponse(raw: string, options: GenerateTextOptions): string {
+    const { answer, reasoning } = splitReasoning(raw);
+    if (reasoning) {
+      logger.debug('Reasoning trace separated from answer', { reasoningLength: reasoning.length });
+      options.onReasoning?.(reasoning);
+    }
+    return answer;
+  }
+
+  /**
+   * Serve a request from the response cache when enabled
+   *
+   * Sampled requests are neither read from nor written to the cache unless
+   * the tool opted in, so a repeated prompt still gets a fresh answer.
+   * Records the cache status in options.metadata so tools can report it.
+   */
+  private async withCache(
+    requestParams: any,
+    options: GenerateTextOptions,
+    produce: () => Promise<string>,
+    onHit?: (text: string) => Promise<void>
+  ): Promise<string> {
+    const mode = options.cache || 'default';
+    const cacheable = requestParams.temperature === 0 || options.cacheable === true;
+    if (!this.cache || mode === 'bypass' || !cacheable) {
+      if (this.cache && options.metadata) {
+        options.metadata.cache = 'bypass';
       }
+      return produce();
+    }
 
-      const completion = await this.client.chat.completions.create(requestParams);
+    const key = this.cache.keyFor(requestParams);
 
-      const content = completion.choices[0]?.message?.content;
-      
-      if (!content) {
-        throw new Error('No content received from Sea-lion API');
+    if (mode === 'default') {
+      const cached = await this.cache.get(key);
+      if (cached !== undefined) {
+        logger.info('Response cache hit', { model: requestParams.model, key: key.slice(0, 12) });
+        if (options.metadata) {
+          options.metadata.cache = 'hit';
+        }
+        await onHit?.(cached);
+        return cached;
       }
+    }
 
-      logger.debug('Text generation successful', { 
-        responseLength: content.length,
-        model: params.model 
-      });
+    logger.info(mode === 'refresh' ? 'Response cache refresh' : 'Response cache miss', {
+      model: requestParams.model,
+      key: key.slice(0, 12)
+    });
+    if (options.metadata) {
+      options.metadata.cache = mode === 'refresh' ? 'refresh' : 'miss';
+    }
 
-      return content;
-    } catch (error) {
-      logger.error('Text generation request failed:', error);
-      
-      // Handle common API errors
-      if (error instanceof Error) {
-        if (error.message.includes('401')) {
-          throw new Error('Invalid API key. Please check your Sea-lion API credentials.');
-        } else if (error.message.includes('429')) {
-          throw new Error('Rate limit exceeded. Please wait before making another request.');
-        } else if (error.message.includes('500')) {
-          throw new Error('Sea-lion API server error. Please try again later.');
+    const content = await produce();
+    await this.cache.set(key, content);
+    return content;
+  }
+
+  /**
+   * Run a request, retrying retryable failures with jittered exponential backoff
+   *
+   * A Retry-After delay from the API takes precedence over the computed
+   * backoff. Errors are always rethrown as SeaLionError subclasses.
+   */
+  private async withRetry<T>(
+    operation: string,
+    request: (attempt: { committed: boolean }) => Promise<T>
+  ): Promise<T> {
+    for (let attemptNumber = 0; ; attemptNumber++) {
+      const attempt = { committed: false };
+      try {
+        return await request(attempt);
+      } catch (rawError) {
+        const error = classifyError(rawError);
+        const canRetry = error.retryable && !attempt.committed && attemptNumber < this.maxRetries;
+        const delay = canRetry ? this.getRetryDelay(error, attemptNumber) : undefined;
+
+        if (delay === undefined) {
+          logger.error(`${operation} request failed:`, { error: error.name, message: error.message, attempts: attemptNumber + 1 });
+          throw error;
         }
+
+        logger.warn(`${operation} request failed, retrying`, {
+          error: error.name,
+          attempt: attemptNumber + 1,
+          delayMs: delay
+        });
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
-      
-      throw new Error(`Sea-lion API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get available models
+   * Compute the delay before the next retry, or undefined if the API asked
+   * for a longer wait than we're willing to make
+   */
+  private getRetryDelay(error: SeaLionError, attemptNumber: number): number | undefined {
+    const retryAfterMs = error instanceof SeaLionRateLimitError || error instanceof SeaLionUpstreamError
+      ? error.retryAfterMs
+      : undefined;
+
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= MAX_RETRY_DELAY_MS ? retryAfterMs : undefined;
+    }
+
+    // Full jitter: a random delay up to the exponential ceiling
+    const ceiling = Math.min(MAX_RETRY_DELAY_MS, this.retryBaseDelayMs * 2 ** attemptNumber);
+    return Math.round(Math.random() * ceiling);
+  }
+
+  /**
+   * Forward the correlation id of the current tool call to the API
+   */
+  private getRequestOptions(): { headers?: Record<string, string> } {
+    const requestId = logger.getCorrelationId();
+    return requestId ? { headers: { 'X-Request-Id': requestId } } : {};
+  }
+
+  /**
+   * Build chat completion request parameters
+   *
+   * max_tokens is capped at the model's largest completion when the registry
+   * knows it.
+   */
+  private buildRequestParams(params: GenerateTextParams): any {
+    const maxTokens = params.max_tokens || 512;
+    const maxOutputTokens = modelRegistry.find(params.model)?.max_output_tokens;
+    const requestParams: any = {
+      model: params.model,
+      messages: params.messages,
+      max_tokens: maxOutputTokens ? Math.min(maxTokens, maxOutputTokens) : maxTokens,
+      temperature: params.temperature ?? 0.7
+    };
+
+    // Add extra_body if provided (for thinking mode)
+    if (params.extra_body) {
+      requestParams.extra_body = params.extra_body;
+    }
+
+    return requestParams;
+  }
+
+  /**
+   * Get the ids of the models the endpoint serves, as of the last refresh
    */
   getAvailableModels(): string[] {
-    return Object.values(SeaLionModel);
+    return modelRegistry.getAvailableIds();
   }
 
   /**
-   * Check if a model is available
+   * Check if a model id or alias names an available model
    */
   isModelAvailable(model: string): boolean {
-    return this.getAvailableModels().includes(model);
+    return modelRegistry.isAvailable(model);
   }
 }
@@ -0,0 +1,150 @@
+/**
+ * Sea-lion API Errors
+ *
+ * Typed errors for failed Sea-lion API calls, classified from the OpenAI
+ * SDK's APIError status so callers can tell auth problems, rate limiting,
+ * upstream outages and timeouts apart, and know which ones are worth retrying.
+ */
+
+import OpenAI from 'openai';
+
+/**
+ * Base class for all Sea-lion API errors
+ */
+export class SeaLionError extends Error {
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(message: string, options: { retryable?: boolean; status?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+}
+
+/**
+ * The API key was rejected (401/403)
+ */
+export class SeaLionAuthError extends SeaLionError {
+  constructor(status?: number, cause?: unknown) {
+    super('Invalid API key. Please check your Sea-lion API credentials.', { status, cause });
+  }
+}
+
+/**
+ * The Sea-lion API rate limit was hit (429)
+ */
+export class SeaLionRateLimitError extends SeaLionError {
+  /**
+   * Delay requested by the Retry-After header, if any
+   */
+  readonly retryAfterMs?: number;
+
+  constructor(retryAfterMs?: number, cause?: unknown) {
+    super('Sea-lion API rate limit exceeded. Please wait before making another request.', { retryable: true, status: 429, cause });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The Sea-lion API failed with a 5xx status
+ */
+export class SeaLionUpstreamError extends SeaLionError {
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, retryAfterMs?: number, cause?: unknown) {
+    super(`Sea-lion API server error (${status}). Please try again later.`, { retryable: true, status, cause });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The request timed out or the connection failed
+ */
+export class SeaLionTimeoutError extends SeaLionError {
+  constructor(message: string = 'Sea-lion API request timed out.', cause?: unknown) {
+    super(message, { retryable: true, cause });
+  }
+}
+
+/**
+ * The API answered but the completion had no content
+ */
+export class SeaLionEmptyContentError extends SeaLionError {
+  constructor() {
+    super('No content received from Sea-lion API');
+  }
+}
+
+/**
+ * Convert any error thrown by the OpenAI SDK into a SeaLionError
+ */
+export function classifyError(error: unknown): SeaLionError {
+  if (error instanceof SeaLionError) {
+    return error;
+  }
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new SeaLionTimeoutError('Sea-lion API request timed out.', error);
+  }
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new SeaLionTimeoutError(`Could not connect to Sea-lion API: ${error.message}`, error);
+  }
+
+  if (error instanceof OpenAI.APIError && typeof error.status === 'number') {
+    const retryAfterMs = parseRetryAfter(error.headers?.get('retry-after'));
+
+    if (error.status === 401 || error.status === 403) {
+      return new SeaLionAuthError(error.status, error);
+    }
+    if (error.status === 429) {
+      return new SeaLionRateLimitError(retryAfterMs, error);
+    }
+    if (error.status === 408) {
+      return new SeaLionTimeoutError('Sea-lion API request timed out.', error);
+    }
+    if (error.status >= 500) {
+      return new SeaLionUpstreamError(error.status, retryAfterMs, error);
+    }
+
+    return new SeaLionError(`Sea-lion API request failed: ${error.message}`, { status: error.status, cause: error });
+  }
+
+  return new SeaLionError(
+    `Sea-lion API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    { cause: error }
+  );
+}
+
+/**
+ * Find a SeaLionError in an error's cause chain
+ */
+export function findSeaLionError(error: unknown): SeaLionError | undefined {
+  let current: unknown = error;
+  for (let depth = 0; current && depth < 10; depth++) {
+    if (current instanceof SeaLionError) {
+      return current;
+    }
+    current = current instanceof Error ? current.cause : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,268 @@
+/**
+ * Tool Prompt Templates
+ *
+ * The system and user prompts that the translation and cultural analysis
+ * tools send to the model are versioned templates. The built-in templates can
+ * be replaced from a JSON file or a directory of JSON files, for every call
+ * or only for one target language or country, without changing code. The
+ * version of each template used is logged with the tool result so changes in
+ * output can be traced to a prompt change.
+ */
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { z } from 'zod';
+import { SeaCountries, SeaCountry, SupportedLanguage, SupportedLanguages } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { TemplateVariables, findTemplateProblems, renderTemplate } from '../utils/templates.js';
+
+export const ToolPromptIds = [
+  'translation.system', 'translation.user', 'translation.glossary_retry', 'analysis.system', 'analysis.user'
+] as const;
+
+export type ToolPromptId = typeof ToolPromptIds[number];
+
+/**
+ * Target language and country a prompt is rendered for, used to pick overrides
+ */
+export interface PromptScope {
+  language?: SupportedLanguage;
+  country?: SeaCountry;
+}
+
+export interface RenderedPrompt {
+  id: ToolPromptId;
+  version: string;
+  text: string;
+}
+
+interface ToolPromptTemplate {
+  id: ToolPromptId;
+  version: string;
+  text: string;
+  language?: SupportedLanguage;
+  country?: SeaCountry;
+}
+
+// Variables each template may use
+const PromptVariables: Record<ToolPromptId, string[]> = {
+  'translation.system': ['source_language', 'target_language', 'preserve_cultural_context', 'formal_register', 'glossary'],
+  'translation.user': [
+    'source_language', 'target_language', 'text', 'references', 'previous_source', 'previous_translation',
+    'preserve_layout', 'protected_tokens'
+  ],
+  'translation.glossary_retry': ['source_language', 'target_language', 'violations'],
+  'analysis.system': ['analysis_type', 'country', 'include_recommendations', 'detail_level'],
+  'analysis.user': [
+    'analysis_type', 'analysis_label', 'content', 'country', 'instruction', 'detail_instruction', 'json_instruction'
+  ]
+};
+
+// Built-in templates, used unless a template file replaces them
+const DefaultTemplates: ToolPromptTemplate[] = [
+  {
+    id: 'translation.system',
+    version: 'builtin-1',
+    text: `You are an expert translator specializing in Southeast Asian languages and cultures. 
+    You understand the cultural nuances, idioms, and context-specific meanings of each language.{{#preserve_cultural_context}} Please preserve cultural nuances, idioms, and context-specific meanings.{{/preserve_cultural_context}}{{#formal_register}} Use formal language register appropriate for professional or academic contexts.{{/formal_register}}{{#glossary}}
+
+{{glossary}}{{/glossary}}`
+  },
+  {
+    id: 'translation.user',
+    version: 'builtin-1',
+    text: `{{#references}}Approved translations of similar texts; reuse their wording where it fits:
+
+{{references}}
+
+{{/references}}{{#previous_source}}For consistency, this passage comes right before the text to translate, followed by its translation. Do not translate it again.
+
+Passage: "{{previous_source}}"
+
+Translation: "{{previous_translation}}"
+
+{{/previous_source}}Translate the following text from {{source_language}} to {{target_language}}:
+
+"{{text}}"
+
+Provide only the translation without additional explanations.{{#preserve_layout}} Keep the line breaks and paragraph breaks of the original.{{/preserve_layout}}{{#protected_tokens}} Tokens such as [[0]] stand for markup or variables: copy each one unchanged into the matching place in the translation.{{/protected_tokens}}`
+  },
+  {
+    id: 'translation.glossary_retry',
+    version: 'builtin-1',
+    text: `Your translation does not follow the required terminology:
+{{violations}}
+
+Provide only the corrected translation.`
+  },
+  {
+    id: 'analysis.system',
+    version: 'builtin-1',
+    text: `You are a Southeast Asian cultural expert with deep understanding of the region's diverse cultures, 
+    social norms, business practices, and cultural sensitivities. You specialize in providing accurate cultural analysis 
+    and context for content{{#country}} with specific focus on {{country}}{{/country}}{{^country}} across Southeast Asian cultures{{/country}}.{{#include_recommendations}} Include practical recommendations and actionable insights.{{/include_recommendations}}`
+  },
+  {
+    id: 'analysis.user',
+    version: 'builtin-1',
+    text: `Please analyze the following content for {{analysis_label}}:
+
+"{{content}}"
+
+{{instruction}} {{detail_instruction}}{{#json_instruction}}
+
+{{json_instruction}}{{/json_instruction}}`
+  }
+];
+
+// Schema for a tool prompt template file
+const ToolPromptFileSchema = z.object({
+  templates: z.array(z.object({
+    id: z.enum(ToolPromptIds, {
+      errorMap: () => ({ message: `Template id must be one of: ${ToolPromptIds.join(', ')}` })
+    }),
+    version: z.string().min(1, 'Version cannot be empty').max(64, 'Version too long'),
+    text: z.string().min(1, 'Template text cannot be empty'),
+    language: z.enum(SupportedLanguages).optional().describe('Use this template only when translating into this language'),
+    country: z.enum(SeaCountries).optional().describe('Use this template only for this target country')
+  }).strict().superRefine((template, ctx) => {
+    for (const problem of findTemplateProblems(template.text, PromptVariables[template.id])) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['text'], message: problem });
+    }
+  })).min(1, 'At least one template is required')
+}).strict();
+
+interface LoadedTemplates {
+  /**
+   * File paths and modification times the templates were loaded from
+   */
+  signature: string;
+  templates: ToolPromptTemplate[];
+}
+
+export class ToolPromptStore {
+  private path?: string;
+  private loaded?: LoadedTemplates;
+
+  /**
+   * Create a store reading templates from a JSON file or a directory of JSON
+   * files, or using only the built-in templates when no path is given
+   *
+   * The templates are loaded right away so a broken file fails at startup.
+   */
+  constructor(path?: string) {
+    this.path = path;
+    if (path) {
+      const files = this.listFiles();
+      this.loaded = { signature: getSignature(files), templates: files.flatMap(loadTemplateFile) };
+      logger.info('Tool prompt templates loaded', { path, templates: this.loaded.templates.length });
+    }
+  }
+
+  /**
+   * Render the template for a scope
+   *
+   * A template for the target country wins over one for the target language,
+   * which wins over the general template. Among equally specific templates,
+   * the one loaded last is used.
+   */
+  render(id: ToolPromptId, variables: TemplateVariables, scope: PromptScope = {}): RenderedPrompt {
+    const template = this.resolve(id, scope);
+    logger.debug('Rendering tool prompt', { id, version: template.version, ...scope });
+    return { id, version: template.version, text: renderTemplate(template.text, variables) };
+  }
+
+  /**
+   * Get the versions of the templates a call uses, keyed by template id
+   */
+  versions(ids: ToolPromptId[], scope: PromptScope = {}): Record<string, string> {
+    return Object.fromEntries(ids.map(id => [id, this.resolve(id, scope).version]));
+  }
+
+  private resolve(id: ToolPromptId, scope: PromptScope): ToolPromptTemplate {
+    let best: ToolPromptTemplate | undefined;
+    let bestRank = -1;
+    for (const template of [...DefaultTemplates, ...this.load()]) {
+      if (template.id !== id ||
+        (template.language && template.language !== scope.language) ||
+        (template.country && template.country !== scope.country)) {
+        continue;
+      }
+      const rank = (template.country ? 2 : 0) + (template.language ? 1 : 0);
+      if (rank >= bestRank) {
+        best = template;
+        bestRank = rank;
+      }
+    }
+
+    // Every id has a built-in general template
+    return best as ToolPromptTemplate;
+  }
+
+  /**
+   * Get the loaded templates, reloading them when a file has changed
+   *
+   * A change that breaks the templates is logged and the previous templates
+   * stay in use.
+   */
+  private load(): ToolPromptTemplate[] {
+    if (!this.path || !this.loaded) {
+      return [];
+    }
+
+    let files: string[];
+    let signature: string;
+    try {
+      files = this.listFiles();
+      signature = getSignature(files);
+    } catch (error) {
+      logger.warn('Failed to check tool prompt templates for changes', { error: error instanceof Error ? error.message : 'Unknown error' });
+      return this.loaded.templates;
+    }
+    if (signature === this.loaded.signature) {
+      return this.loaded.templates;
+    }
+
+    try {
+      this.loaded = { signature, templates: files.flatMap(loadTemplateFile) };
+      logger.info('Tool prompt templates reloaded', { path: this.path, templates: this.loaded.templates.length });
+    } catch (error) {
+      logger.error('Keeping previous tool prompt templates:', error);
+      this.loaded = { signature, templates: this.loaded.templates };
+    }
+    return this.loaded.templates;
+  }
+
+  private listFiles(): string[] {
+    const path = this.path as string;
+    if (!statSync(path).isDirectory()) {
+      return [path];
+    }
+    return readdirSync(path)
+      .filter(file => extname(file) === '.json')
+      .sort()
+      .map(file => join(path, file));
+  }
+}
+
+function getSignature(files: string[]): string {
+  return files.map(file => `${file}:${statSync(file).mtimeMs}`).join('|');
+}
+
+/**
+ * Read and validate a tool prompt template file
+ */
+function loadTemplateFile(filePath: string): ToolPromptTemplate[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read tool prompt templates ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const parsed = ToolPromptFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid tool prompt templates ${filePath}: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+  }
+  return parsed.data.templates;
+}
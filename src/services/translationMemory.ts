@@ -0,0 +1,494 @@
+/**
+ * Translation Memory
+ *
+ * Stores approved translations per language pair in a local JSON file so
+ * repeated strings are not translated again. Exact matches are served from
+ * the store; close (fuzzy) matches are offered to the model as references.
+ * Fuzzy scores are word-level edit distance as a percentage, the measure CAT
+ * tools use. Units can be imported from and exported to TMX 1.4.
+ *
+ * Each authenticated client has its own units, so one client can neither
+ * read another's source texts nor change the translations served to it.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Languages, SupportedLanguage, SupportedLanguages } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Where a unit came from: recorded from a model translation, or added or
+ * imported by a person
+ */
+export type TranslationUnitOrigin = 'model' | 'curated';
+
+// Owner of the units when client authentication is off
+const SHARED_MEMORY_OWNER = 'local';
+
+export interface TranslationUnit {
+  id: string;
+  /**
+   * Client the unit belongs to
+   */
+  owner: string;
+  source_language: SupportedLanguage;
+  target_language: SupportedLanguage;
+  source: string;
+  target: string;
+  origin: TranslationUnitOrigin;
+  /**
+   * Options the translation was made with, such as model and register; unset
+   * for units that apply whatever the options
+   */
+  variant?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TranslationMatch {
+  unit: TranslationUnit;
+  /**
+   * Similarity of the unit's source to the query, in percent
+   */
+  score: number;
+}
+
+export interface TranslationMemoryOptions {
+  /**
+   * Default lowest fuzzy match score, in percent
+   */
+  fuzzyThreshold: number;
+  /**
+   * Record model translations that pass the glossary and quality checks
+   */
+  autoRecord: boolean;
+}
+
+/**
+ * Fields of a unit given when adding it
+ */
+export type UnitEntry = Pick<TranslationUnit, 'source_language' | 'target_language' | 'source' | 'target' | 'variant'>;
+
+export interface TmxImportResult {
+  imported: number;
+  skipped: number;
+}
+
+interface MemoryFile {
+  version: 1;
+  units: TranslationUnit[];
+}
+
+// Longest text, in words, compared by edit distance
+const MAX_FUZZY_WORDS = 1000;
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+export class TranslationMemory {
+  readonly fuzzyThreshold: number;
+  readonly autoRecord: boolean;
+  private filePath: string;
+  private units: Map<string, TranslationUnit>;
+  private mtimeMs?: number;
+  /**
+   * Why the file on disk could not be read, while it cannot
+   */
+  private readError?: string;
+  private writes: Promise<unknown>;
+
+  constructor(filePath: string, options: TranslationMemoryOptions = { fuzzyThreshold: 75, autoRecord: false }) {
+    this.filePath = filePath;
+    this.fuzzyThreshold = options.fuzzyThreshold;
+    this.autoRecord = options.autoRecord;
+    this.units = new Map();
+    this.writes = Promise.resolve();
+  }
+
+  /**
+   * Find the owner's unit whose source is exactly the given text, translated
+   * with the given options
+   *
+   * A curated unit without options applies to every variant; a model
+   * translation is only served for the options it was made with.
+   */
+  async lookup(
+    owner: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    text: string,
+    variant: string
+  ): Promise<TranslationUnit | undefined> {
+    await this.load();
+    const specific = this.units.get(unitId(owner, sourceLanguage, targetLanguage, text, variant));
+    const general = this.units.get(unitId(owner, sourceLanguage, targetLanguage, text));
+    if (specific?.origin === 'curated') {
+      return specific;
+    }
+    return general?.origin === 'curated' ? general : specific;
+  }
+
+  /**
+   * Find the owner's units with a similar source, best first
+   */
+  async search(
+    owner: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    text: string,
+    options: { minScore?: number; limit?: number } = {}
+  ): Promise<TranslationMatch[]> {
+    await this.load();
+    const minScore = options.minScore ?? this.fuzzyThreshold;
+    const queryWords = toWords(text);
+
+    const matches: TranslationMatch[] = [];
+    for (const unit of this.units.values()) {
+      if (unit.owner !== owner || unit.source_language !== sourceLanguage || unit.target_language !== targetLanguage) {
+        continue;
+      }
+      const score = similarity(queryWords, toWords(unit.source), minScore);
+      if (score >= minScore) {
+        matches.push({ unit, score });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score || originRank(a.unit) - originRank(b.unit))
+      .slice(0, options.limit ?? 5);
+  }
+
+  /**
+   * Add or replace a unit
+   *
+   * A model translation never replaces a curated one; the existing unit is
+   * returned unchanged instead.
+   */
+  async add(
+    owner: string,
+    entry: UnitEntry,
+    origin: TranslationUnitOrigin
+  ): Promise<{ unit: TranslationUnit; replaced: boolean }> {
+    return this.update(() => this.put(owner, entry, origin, new Date().toISOString()));
+  }
+
+  /**
+   * Import the units of a TMX document for an owner
+   *
+   * Each translation unit variant is paired with the unit's source language
+   * (the tu or header srclang, or else the first variant). Variants in
+   * unsupported languages are skipped.
+   */
+  async importTmx(owner: string, tmx: string): Promise<TmxImportResult> {
+    const headerSource = tmx.match(/<header\b[^>]*\bsrclang="([^"]*)"/)?.[1];
+    const pairs: Array<{ entry: UnitEntry; origin: TranslationUnitOrigin; date?: string }> = [];
+    let skipped = 0;
+
+    for (const [, attributes, body] of tmx.matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/g)) {
+      const variants = Array.from(body.matchAll(/<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/g)).map(([, tuvAttributes, tuvBody]) => ({
+        language: fromLanguageCode(tuvAttributes.match(/\b(?:xml:)?lang="([^"]*)"/)?.[1] ?? ''),
+        text: decodeXml(stripInlineMarkup(tuvBody.match(/<seg>([\s\S]*?)<\/seg>/)?.[1] ?? '')).trim()
+      }));
+
+      const sourceCode = attributes.match(/\bsrclang="([^"]*)"/)?.[1] ?? headerSource;
+      const sourceLanguage = sourceCode && sourceCode !== '*all*' ? fromLanguageCode(sourceCode) : variants[0]?.language;
+      const source = variants.find(variant => variant.language && variant.language === sourceLanguage);
+      const targets = variants.filter(variant => variant !== source);
+      if (!source?.language || !source.text || targets.length === 0) {
+        skipped++;
+        continue;
+      }
+
+      const origin = body.match(/<prop\s+type="x-origin">(model|curated)<\/prop>/)?.[1] as TranslationUnitOrigin | undefined;
+      const variant = body.match(/<prop\s+type="x-variant">([\s\S]*?)<\/prop>/)?.[1];
+      const date = parseTmxDate(attributes.match(/\bchangedate="([^"]*)"/)?.[1] ?? attributes.match(/\bcreationdate="([^"]*)"/)?.[1]);
+      for (const target of targets) {
+        if (!target.language || !target.text) {
+          skipped++;
+          continue;
+        }
+        pairs.push({
+          entry: {
+            source_language: source.language,
+            target_language: target.language,
+            source: source.text,
+            target: target.text,
+            ...(variant && { variant: decodeXml(variant) })
+          },
+          origin: origin ?? 'curated',
+          date
+        });
+      }
+    }
+
+    await this.update(() => {
+      for (const { entry, origin, date } of pairs) {
+        this.put(owner, entry, origin, date ?? new Date().toISOString());
+      }
+    });
+
+    logger.info('Translation memory imported', { owner, imported: pairs.length, skipped });
+    return { imported: pairs.length, skipped };
+  }
+
+  /**
+   * Export the owner's units as a TMX 1.4 document, optionally for one
+   * language pair
+   */
+  async exportTmx(
+    owner: string,
+    filter: { source_language?: SupportedLanguage; target_language?: SupportedLanguage } = {}
+  ): Promise<string> {
+    await this.load();
+    const units = Array.from(this.units.values()).filter(unit =>
+      unit.owner === owner &&
+      (!filter.source_language || unit.source_language === filter.source_language) &&
+      (!filter.target_language || unit.target_language === filter.target_language));
+
+    const body = units.map(unit => [
+      `    <tu tuid="${unit.id}" srclang="${Languages[unit.source_language].code}" ` +
+        `creationdate="${formatTmxDate(unit.created_at)}" changedate="${formatTmxDate(unit.updated_at)}">`,
+      `      <prop type="x-origin">${unit.origin}</prop>`,
+      ...(unit.variant ? [`      <prop type="x-variant">${encodeXml(unit.variant)}</prop>`] : []),
+      `      <tuv xml:lang="${Languages[unit.source_language].code}"><seg>${encodeXml(unit.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${Languages[unit.target_language].code}"><seg>${encodeXml(unit.target)}</seg></tuv>`,
+      '    </tu>'
+    ].join('\n'));
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<tmx version="1.4">',
+      '  <header creationtool="sea-lionmcp" creationtoolversion="1.0.0" segtype="sentence" o-tmf="sea-lionmcp" ' +
+        'adminlang="en" srclang="*all*" datatype="plaintext"/>',
+      '  <body>',
+      ...body,
+      '  </body>',
+      '</tmx>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Reload the file when it has changed on disk
+   *
+   * A file that cannot be read is logged and the last units read stay in
+   * use, so translations keep working while it is fixed.
+   */
+  private async load(): Promise<void> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await stat(this.filePath)).mtimeMs;
+    } catch {
+      return;
+    }
+    if (mtimeMs === this.mtimeMs) {
+      return;
+    }
+
+    let units: TranslationUnit[];
+    try {
+      const data: MemoryFile = JSON.parse(await readFile(this.filePath, 'utf8'));
+      units = (data.units ?? []).map(unit => unit.owner ? unit : {
+        // Units written before memories were kept per client belong to the shared owner
+        ...unit,
+        owner: SHARED_MEMORY_OWNER,
+        id: unitId(SHARED_MEMORY_OWNER, unit.source_language, unit.target_language, unit.source, unit.variant)
+      });
+    } catch (error) {
+      this.readError = `Failed to read translation memory ${this.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      this.mtimeMs = mtimeMs;
+      logger.error('Keeping previous translation memory units:', { error: this.readError, units: this.units.size });
+      return;
+    }
+
+    this.units = new Map(units.map(unit => [unit.id, unit]));
+    this.mtimeMs = mtimeMs;
+    this.readError = undefined;
+    logger.info('Translation memory loaded', { file: this.filePath, units: this.units.size });
+  }
+
+  /**
+   * Apply a change and write the file, one change at a time
+   *
+   * Refuses to write while the file cannot be read, since writing would
+   * replace whatever it holds.
+   */
+  private update<T>(change: () => T): Promise<T> {
+    const result = this.writes.then(async () => {
+      await this.load();
+      if (this.readError) {
+        throw new Error(`${this.readError}; not changing it until it can be read`);
+      }
+      const value = change();
+      await this.save();
+      return value;
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private put(
+    owner: string,
+    entry: UnitEntry,
+    origin: TranslationUnitOrigin,
+    date: string
+  ): { unit: TranslationUnit; replaced: boolean } {
+    const id = unitId(owner, entry.source_language, entry.target_language, entry.source, entry.variant);
+    const existing = this.units.get(id);
+    if (existing && existing.origin === 'curated' && origin === 'model') {
+      return { unit: existing, replaced: false };
+    }
+
+    const unit: TranslationUnit = {
+      id,
+      owner,
+      source_language: entry.source_language,
+      target_language: entry.target_language,
+      source: normalize(entry.source),
+      target: entry.target.trim(),
+      origin,
+      ...(entry.variant && { variant: entry.variant }),
+      created_at: existing?.created_at ?? date,
+      updated_at: date
+    };
+    this.units.set(id, unit);
+    return { unit, replaced: existing !== undefined };
+  }
+
+  /**
+   * Write the units to a temporary file and move it into place
+   */
+  private async save(): Promise<void> {
+    const data: MemoryFile = { version: 1, units: Array.from(this.units.values()) };
+    const temporary = `${this.filePath}.${process.pid}.tmp`;
+
+    await mkdir(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    await writeFile(temporary, JSON.stringify(data, null, 2), 'utf8');
+    await rename(temporary, this.filePath);
+    this.mtimeMs = (await stat(this.filePath)).mtimeMs;
+  }
+}
+
+/**
+ * Get the memory owner for an authenticated client name
+ *
+ * Without client authentication every caller shares one memory.
+ */
+export function getMemoryOwner(client?: string): string {
+  return client ? `client:${client}` : SHARED_MEMORY_OWNER;
+}
+
+/**
+ * Rank curated units before model translations with the same score
+ */
+function originRank(unit: TranslationUnit): number {
+  return unit.origin === 'curated' ? 0 : 1;
+}
+
+/**
+ * Collapse whitespace so spacing differences still match exactly
+ */
+function normalize(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+function unitId(
+  owner: string,
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  source: string,
+  variant?: string
+): string {
+  return createHash('sha256')
+    .update(`${owner}\n${sourceLanguage}\n${targetLanguage}\n${normalize(source)}${variant ? `\n${variant}` : ''}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function toWords(text: string): string[] {
+  return Array.from(wordSegmenter.segment(normalize(text).toLowerCase()))
+    .map(({ segment }) => segment)
+    .filter(segment => segment.trim() !== '');
+}
+
+/**
+ * Word-level edit distance similarity in percent, or 0 when the lengths
+ * alone rule out reaching minScore
+ */
+function similarity(a: string[], b: string[], minScore: number): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 100;
+  }
+  if (longest > MAX_FUZZY_WORDS || Math.abs(a.length - b.length) > longest * (1 - minScore / 100)) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return Math.round((1 - previous[b.length] / longest) * 100);
+}
+
+/**
+ * Map a TMX language code such as en-US or zh-Hans to a supported language
+ */
+function fromLanguageCode(code: string): SupportedLanguage | undefined {
+  const primary = code.toLowerCase().split(/[-_]/)[0];
+  if (primary === 'tl') {
+    return 'filipino';
+  }
+  return SupportedLanguages.find(language => Languages[language].code === primary);
+}
+
+/**
+ * Drop TMX inline elements: native code (bpt, ept, ph, it) is removed with
+ * its content, other elements keep their text
+ */
+function stripInlineMarkup(seg: string): string {
+  return seg
+    .replace(/<(bpt|ept|ph|it)\b[^>]*>[\s\S]*?<\/\1>/g, '')
+    .replace(/<[^>]+>/g, '');
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[\da-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[name] ?? entity;
+  });
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format an ISO date as a TMX date (YYYYMMDDThhmmssZ)
+ */
+function formatTmxDate(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d+/, '');
+}
+
+function parseTmxDate(value?: string): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}.000Z` : undefined;
+}
@@ -0,0 +1,198 @@
+/**
+ * Translation Quality Estimation
+ *
+ * Scores a translation by comparing the source text with a back-translation
+ * of the output into the source language. Similarity is measured locally
+ * with chrF (character n-gram F-score) and word token overlap, and the
+ * output is checked for being written in the target language's script.
+ * Sentences whose back-translation strays from the source are flagged.
+ */
+
+import { SupportedLanguage } from '../types/index.js';
+import { getScriptShare } from './languageDetector.js';
+import { splitSentences } from '../utils/segmentation.js';
+
+export interface QualitySegment {
+  source: string;
+  back_translation: string;
+  chrf: number;
+}
+
+export interface QualityReport {
+  /**
+   * Overall score from 0 to 1
+   */
+  score: number;
+  chrf: number;
+  token_overlap: number;
+  /**
+   * Share of the translation's letters in the target language's script
+   */
+  script_share: number;
+  back_translation: string;
+  flagged_segments: QualitySegment[];
+  warnings: string[];
+}
+
+// Longest character n-gram used by chrF
+const CHRF_ORDER = 6;
+
+// chrF weighs recall this many times as much as precision
+const CHRF_BETA = 2;
+
+// Sentences scoring below this chrF against their back-translation are flagged
+const SEGMENT_FLAG_THRESHOLD = 0.45;
+
+// Share of letters in the expected script below which the output is penalised
+const SCRIPT_SHARE_THRESHOLD = 0.8;
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+/**
+ * Estimate the quality of a translation from its back-translation
+ */
+export function assessTranslationQuality(
+  source: string,
+  translation: string,
+  backTranslation: string,
+  targetLanguage: SupportedLanguage
+): QualityReport {
+  const chrf = round(computeChrF(backTranslation, source));
+  const tokenOverlap = round(computeTokenOverlap(backTranslation, source));
+  const scriptShare = getScriptShare(translation, targetLanguage);
+
+  const warnings: string[] = [];
+  let score = 0.6 * chrf + 0.4 * tokenOverlap;
+  if (scriptShare < SCRIPT_SHARE_THRESHOLD) {
+    warnings.push(`Only ${Math.round(scriptShare * 100)}% of the translation is in the ${targetLanguage} script`);
+    score *= scriptShare;
+  }
+
+  return {
+    score: round(score),
+    chrf,
+    token_overlap: tokenOverlap,
+    script_share: scriptShare,
+    back_translation: backTranslation,
+    flagged_segments: findWeakSegments(source, backTranslation),
+    warnings
+  };
+}
+
+/**
+ * Compute chrF between a hypothesis and a reference, from 0 to 1
+ *
+ * Whitespace is ignored, and precision and recall are averaged over n-gram
+ * orders 1 to 6 before being combined.
+ */
+export function computeChrF(hypothesis: string, reference: string): number {
+  const hypothesisChars = Array.from(hypothesis.toLowerCase().replace(/\s+/g, ''));
+  const referenceChars = Array.from(reference.toLowerCase().replace(/\s+/g, ''));
+  if (hypothesisChars.length === 0 || referenceChars.length === 0) {
+    return hypothesisChars.length === referenceChars.length ? 1 : 0;
+  }
+
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+
+  for (let n = 1; n <= CHRF_ORDER; n++) {
+    const hypothesisGrams = countNgrams(hypothesisChars, n);
+    const referenceGrams = countNgrams(referenceChars, n);
+    const hypothesisTotal = sumCounts(hypothesisGrams);
+    const referenceTotal = sumCounts(referenceGrams);
+    if (hypothesisTotal === 0 || referenceTotal === 0) {
+      break;
+    }
+
+    const matches = countMatches(hypothesisGrams, referenceGrams);
+    precisionSum += matches / hypothesisTotal;
+    recallSum += matches / referenceTotal;
+    orders++;
+  }
+
+  return fScore(precisionSum / orders, recallSum / orders, CHRF_BETA);
+}
+
+/**
+ * Compute the F1 overlap of the word tokens in two texts, from 0 to 1
+ */
+export function computeTokenOverlap(a: string, b: string): number {
+  const aTokens = countTokens(a);
+  const bTokens = countTokens(b);
+  const aTotal = sumCounts(aTokens);
+  const bTotal = sumCounts(bTokens);
+  if (aTotal === 0 || bTotal === 0) {
+    return aTotal === bTotal ? 1 : 0;
+  }
+
+  const matches = countMatches(aTokens, bTokens);
+  return fScore(matches / aTotal, matches / bTotal, 1);
+}
+
+/**
+ * Flag source sentences whose closest back-translated sentence scores low
+ */
+function findWeakSegments(source: string, backTranslation: string): QualitySegment[] {
+  const sourceSentences = splitSentences(source).map(sentence => sentence.trim()).filter(Boolean);
+  const backSentences = splitSentences(backTranslation).map(sentence => sentence.trim()).filter(Boolean);
+  if (sourceSentences.length < 2 || backSentences.length === 0) {
+    return [];
+  }
+
+  return sourceSentences
+    .map(sentence => {
+      const best = backSentences
+        .map(candidate => ({ candidate, chrf: computeChrF(candidate, sentence) }))
+        .reduce((a, b) => (b.chrf > a.chrf ? b : a));
+      return { source: sentence, back_translation: best.candidate, chrf: round(best.chrf) };
+    })
+    .filter(segment => segment.chrf < SEGMENT_FLAG_THRESHOLD);
+}
+
+function countNgrams(chars: string[], n: number): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i + n <= chars.length; i++) {
+    const gram = chars.slice(i, i + n).join('');
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function countTokens(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const { segment, isWordLike } of wordSegmenter.segment(text.toLowerCase())) {
+    if (isWordLike) {
+      counts.set(segment, (counts.get(segment) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function countMatches(a: Map<string, number>, b: Map<string, number>): number {
+  let matches = 0;
+  for (const [key, count] of a) {
+    matches += Math.min(count, b.get(key) ?? 0);
+  }
+  return matches;
+}
+
+function sumCounts(counts: Map<string, number>): number {
+  let total = 0;
+  for (const count of counts.values()) {
+    total += count;
+  }
+  return total;
+}
+
+function fScore(precision: number, recall: number, beta: number): number {
+  if (precision === 0 && recall === 0) {
+    return 0;
+  }
+  const betaSquared = beta * beta;
+  return (1 + betaSquared) * precision * recall / (betaSquared * precision + recall);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,177 @@
+/**
+ * Chat Tools
+ *
+ * Multi-turn chat with Sea-lion models. Conversation history is kept on the
+ * server so follow-up messages keep their context, with companion tools to
+ * list, fetch and clear conversations.
+ */
+
+import { z } from 'zod';
+import { ToolDefinition, ToolContext, ChatMessage } from '../types/index.js';
+import { SeaLionClient } from '../services/sealionClient.js';
+import { ConversationStore } from '../services/conversationStore.js';
+import { createModelSchema, modelRegistry } from '../services/modelRegistry.js';
+import { logger } from '../utils/logger.js';
+
+// Conversation ids are chosen by the caller
+const ConversationIdSchema = z.string()
+  .min(1, 'Conversation ID cannot be empty')
+  .max(128, 'Conversation ID too long')
+  .regex(/^[A-Za-z0-9_.:-]+$/, 'Conversation ID may only contain letters, digits, and _ . : -')
+  .describe('Identifier of the conversation; a new conversation is started if it does not exist');
+
+// Input schema for chat tool
+const ChatSchema = z.object({
+  conversation_id: ConversationIdSchema,
+  message: z.string().min(1, 'Message cannot be empty').max(10000, 'Message too long'),
+  system_prompt: z.string().max(5000, 'System prompt too long').optional().describe('Sets or replaces the system prompt for the conversation'),
+  model: createModelSchema('v3.5').describe('Model alias or id; see sealion://models'),
+  max_tokens: z.number().int().min(1, 'Max tokens must be at least 1').max(4096, 'Max tokens cannot exceed 4096').default(512),
+  temperature: z.number().min(0, 'Temperature must be at least 0').max(2, 'Temperature cannot exceed 2').default(0.7),
+  thinking_mode: z.boolean().default(true).describe('Enable reasoning mode on models that support thinking'),
+  cache: z.enum(['bypass', 'refresh'], {
+    errorMap: () => ({ message: 'Cache must be either bypass or refresh' })
+  }).optional().describe('Skip the response cache (bypass) or replace the cached response (refresh); only calls with temperature 0 are cached')
+}).strict();
+
+// Input schema for tools addressing a single conversation
+const ConversationSchema = z.object({
+  conversation_id: ConversationIdSchema
+}).strict();
+
+// Input schema for listing conversations
+const ListConversationsSchema = z.object({}).strict();
+
+type ChatArgs = z.infer<typeof ChatSchema>;
+type ConversationArgs = z.infer<typeof ConversationSchema>;
+
+/**
+ * Resolve who owns the conversations touched by a call
+ */
+function getOwner(context?: ToolContext): string {
+  return context?.owner || 'local';
+}
+
+/**
+ * Handle chat requests
+ */
+async function handleChat(
+  store: ConversationStore,
+  args: ChatArgs,
+  client: SeaLionClient,
+  context?: ToolContext
+): Promise<string> {
+  logger.info('Starting chat turn', { conversationId: args.conversation_id, model: args.model });
+
+  const owner = getOwner(context);
+  const userMessage: ChatMessage = { role: 'user', content: args.message };
+
+  try {
+    // A turn sent while another is in flight waits for it, so it sees that turn's reply
+    return await store.runExclusive(owner, args.conversation_id, async () => {
+      const draft = store.preview(owner, args.conversation_id, args.system_prompt);
+      const messages = store.getContextMessages({
+        ...draft,
+        messages: [...draft.messages, userMessage]
+      });
+
+      const requestParams = {
+        ...modelRegistry.requestFields(args.model, args.thinking_mode),
+        messages,
+        max_tokens: args.max_tokens,
+        temperature: args.temperature
+      };
+
+      const response = await client.generateText(requestParams, { cache: args.cache, metadata: context?.metadata });
+
+      // Only create the conversation and record the turn once the model has answered
+      const conversation = store.getOrCreate(owner, args.conversation_id, args.system_prompt);
+      store.append(conversation, userMessage, { role: 'assistant', content: response });
+
+      logger.info('Chat turn completed successfully', {
+        conversationId: args.conversation_id,
+        messageCount: conversation.messages.length
+      });
+      return response;
+    });
+  } catch (error) {
+    logger.error('Chat turn failed:', error);
+    throw new Error(`Chat failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+/**
+ * Create the chat tool definition
+ */
+export function createChatTool(store: ConversationStore): ToolDefinition {
+  return {
+    name: 'sealion_chat',
+    description: 'Multi-turn chat with Sea-lion Southeast Asian language models. History is kept on the server per conversation_id, so follow-up messages keep their context. Older turns are dropped when the history exceeds the token budget.',
+    inputSchema: ChatSchema,
+    handler: (args: ChatArgs, client: SeaLionClient, context?: ToolContext) => handleChat(store, args, client, context),
+    sanitization: {
+      message: 'text',
+      system_prompt: 'text'
+    }
+  };
+}
+
+/**
+ * Create the conversation listing tool definition
+ */
+export function createListConversationsTool(store: ConversationStore): ToolDefinition {
+  return {
+    name: 'sealion_list_conversations',
+    description: 'List active sealion_chat conversations with their message counts and expiry times.',
+    inputSchema: ListConversationsSchema,
+    handler: async (_args: unknown, _client: SeaLionClient, context?: ToolContext) => {
+      const conversations = store.list(getOwner(context));
+      return JSON.stringify({ conversations }, null, 2);
+    },
+    // Served from local history without calling the Sea-lion API
+    cost: () => 0
+  };
+}
+
+/**
+ * Create the conversation fetch tool definition
+ */
+export function createGetConversationTool(store: ConversationStore): ToolDefinition {
+  return {
+    name: 'sealion_get_conversation',
+    description: 'Fetch the full message history of a sealion_chat conversation.',
+    inputSchema: ConversationSchema,
+    handler: async (args: ConversationArgs, _client: SeaLionClient, context?: ToolContext) => {
+      const conversation = store.get(getOwner(context), args.conversation_id);
+      if (!conversation) {
+        throw new Error(`Conversation not found: ${args.conversation_id}`);
+      }
+      return JSON.stringify({
+        ...store.summarize(conversation),
+        messages: conversation.messages
+      }, null, 2);
+    },
+    // Served from local history without calling the Sea-lion API
+    cost: () => 0
+  };
+}
+
+/**
+ * Create the conversation clear tool definition
+ */
+export function createClearConversationTool(store: ConversationStore): ToolDefinition {
+  return {
+    name: 'sealion_clear_conversation',
+    description: 'Delete a sealion_chat conversation and its history.',
+    inputSchema: ConversationSchema,
+    handler: async (args: ConversationArgs, _client: SeaLionClient, context?: ToolContext) => {
+      const deleted = store.delete(getOwner(context), args.conversation_id);
+      logger.info('Conversation cleared', { conversationId: args.conversation_id, deleted });
+      return deleted
+        ? `Conversation ${args.conversation_id} cleared.`
+        : `Conversation ${args.conversation_id} did not exist.`;
+    },
+    // Served from local history without calling the Sea-lion API
+    cost: () => 0
+  };
+}
@@ -6,82 +6,104 @@
  */
 
 import { z } from 'zod';
-import { ToolDefinition, SeaLionModel } from '../types/index.js';
-import { SeaLionClient } from '../services/sealionClient.js';
+import {
+  ToolDefinition,
+  ToolContext,
+  PromptDefinition,
+  CulturalAnalysisTypes,
+  SeaCountries,
+  Countries
+} from '../types/index.js';
+import { SeaLionClient, GenerateTextOptions } from '../services/sealionClient.js';
+import { ToolPromptId, ToolPromptStore } from '../services/toolPrompts.js';
+import { createModelSchema, modelRegistry } from '../services/modelRegistry.js';
 import { logger } from '../utils/logger.js';
 
-// Supported analysis types
-const AnalysisTypes = [
-  'cultural_context',
-  'social_norms',
-  'business_etiquette',
-  'language_usage',
-  'religious_sensitivity',
-  'generational_differences',
-  'regional_variations'
-] as const;
-
-// Southeast Asian countries for context
-const Countries = [
-  'singapore', 'malaysia', 'indonesia', 'thailand', 'vietnam', 
-  'philippines', 'myanmar', 'cambodia', 'laos', 'brunei'
-] as const;
+// Prompt templates behind every analysis request
+const ANALYSIS_PROMPTS: ToolPromptId[] = ['analysis.system', 'analysis.user'];
+
+// Severity of a finding in a JSON analysis
+const Severities = ['info', 'low', 'medium', 'high'] as const;
+
+// Schema for one finding in a JSON analysis
+const FindingSchema = z.object({
+  title: z.string().min(1, 'Finding title cannot be empty'),
+  description: z.string().min(1, 'Finding description cannot be empty'),
+  severity: z.enum(Severities),
+  country: z.enum(SeaCountries).nullable().describe('Affected country, or null when the finding applies across the region'),
+  category: z.enum(CulturalAnalysisTypes),
+  recommendations: z.array(z.string().min(1)).default([])
+});
+
+// Schema the model's JSON analysis is validated against
+const AnalysisReportSchema = z.object({
+  summary: z.string().min(1, 'Summary cannot be empty'),
+  findings: z.array(FindingSchema)
+});
+
+// Structured content returned for both formats; prose analyses carry only the summary
+const CulturalAnalysisOutputSchema = AnalysisReportSchema.extend({
+  summary: z.string().describe('Overall assessment, or the full analysis when output_format is text'),
+  findings: z.array(FindingSchema).optional().describe('Present when output_format is json')
+});
 
 // Input schema for cultural analysis tool
 const CulturalAnalysisSchema = z.object({
-  content: z.string().min(1, 'Content for analysis cannot be empty').max(5000, 'Content too long for analysis'),
-  analysis_type: z.enum(AnalysisTypes, {
-    errorMap: () => ({ message: `Analysis type must be one of: ${AnalysisTypes.join(', ')}` })
-  }).default('cultural_context'),
-  target_country: z.enum(Countries, {
-    errorMap: () => ({ message: `Target country must be one of: ${Countries.join(', ')}` })
+  content: z.string().min(1, 'Content for analysis cannot be empty').max(5000, 'Content too long for analysis')
+    .describe('Content to analyze, such as an email, advertisement or message'),
+  analysis_type: z.enum(CulturalAnalysisTypes, {
+    errorMap: () => ({ message: `Analysis type must be one of: ${CulturalAnalysisTypes.join(', ')}` })
+  }).default('cultural_context').describe(`Aspect to analyze: ${CulturalAnalysisTypes.join(', ')}`),
+  target_country: z.enum(SeaCountries, {
+    errorMap: () => ({ message: `Target country must be one of: ${SeaCountries.join(', ')}` })
   }).optional().describe('Specific Southeast Asian country for focused analysis'),
-  model: z.enum(['v3', 'v3.5'], {
-    errorMap: () => ({ message: 'Model must be either v3 or v3.5' })
-  }).default('v3.5'),
+  model: createModelSchema('v3.5').describe('Model alias or id; see sealion://models'),
   include_recommendations: z.boolean().default(true).describe('Include actionable recommendations'),
   detail_level: z.enum(['brief', 'detailed', 'comprehensive'], {
     errorMap: () => ({ message: 'Detail level must be brief, detailed, or comprehensive' })
-  }).default('detailed')
+  }).default('detailed'),
+  include_reasoning: z.boolean().default(false).describe('Return the thinking mode reasoning trace as a separate content block'),
+  output_format: z.enum(['text', 'json'], {
+    errorMap: () => ({ message: 'Output format must be either text or json' })
+  }).default('text').describe('Return prose, or findings with severity, country, category and recommendations as validated JSON'),
+  cache: z.enum(['bypass', 'refresh'], {
+    errorMap: () => ({ message: 'Cache must be either bypass or refresh' })
+  }).optional().describe('Skip the response cache (bypass) or replace the cached response (refresh)')
 }).strict();
 
+// Arguments of the cultural review prompt
+const CulturalReviewPromptSchema = CulturalAnalysisSchema.pick({
+  content: true,
+  analysis_type: true,
+  target_country: true
+});
+
 type CulturalAnalysisArgs = z.infer<typeof CulturalAnalysisSchema>;
+type CulturalReviewPromptArgs = z.infer<typeof CulturalReviewPromptSchema>;
+type AnalysisReport = z.infer<typeof AnalysisReportSchema>;
 
 /**
  * Handle cultural analysis requests
  */
 async function handleCulturalAnalysis(
+  prompts: ToolPromptStore,
   args: CulturalAnalysisArgs,
-  client: SeaLionClient
+  client: SeaLionClient,
+  context?: ToolContext
 ): Promise<string> {
   logger.info('Starting cultural analysis', { 
     type: args.analysis_type,
     country: args.target_country,
     model: args.model 
   });
+  if (context?.metadata) {
+    context.metadata.prompt_versions = prompts.versions(ANALYSIS_PROMPTS, { country: args.target_country });
+  }
 
   try {
-    // Select the appropriate model
-    const modelName = args.model === 'v3.5' 
-      ? SeaLionModel.V3_5_8B_R 
-      : SeaLionModel.V3_9B_IT;
-
     // Construct analysis prompt based on type and parameters
-    const countryContext = args.target_country 
-      ? ` with specific focus on ${args.target_country.charAt(0).toUpperCase() + args.target_country.slice(1)}` 
-      : ' across Southeast Asian cultures';
-
-    const recommendationsNote = args.include_recommendations 
-      ? ' Include practical recommendations and actionable insights.'
-      : '';
-
-    const detailInstruction = getDetailLevelInstruction(args.detail_level);
-
-    const systemPrompt = `You are a Southeast Asian cultural expert with deep understanding of the region's diverse cultures, 
-    social norms, business practices, and cultural sensitivities. You specialize in providing accurate cultural analysis 
-    and context for content${countryContext}.${recommendationsNote}`;
-
-    const userPrompt = buildAnalysisPrompt(args);
+    const systemPrompt = buildAnalysisSystemPrompt(prompts, args);
+    const userPrompt = buildAnalysisPrompt(prompts, args);
 
     const messages = [
       {
@@ -94,38 +116,61 @@ async function handleCulturalAnalysis(
       }
     ];
 
+    // Use reasoning mode where the model supports it to improve analysis quality
     const requestParams: any = {
-      model: modelName,
+      ...modelRegistry.requestFields(args.model, true),
       messages,
-      max_tokens: getMaxTokensForDetail(args.detail_level),
+      // JSON needs room for its syntax on top of the analysis itself
+      max_tokens: getMaxTokensForDetail(args.detail_level) * (args.output_format === 'json' ? 2 : 1),
       temperature: 0.4 // Balanced temperature for analytical content
     };
 
-    // Use reasoning mode for v3.5 to improve analysis quality
-    if (args.model === 'v3.5') {
-      requestParams.extra_body = {
-        chat_template_kwargs: {
-          thinking_mode: 'on'
-        }
-      };
+    const options: GenerateTextOptions = {
+      cache: args.cache,
+      // Repeating an analysis of the same text should give the same report
+      cacheable: true,
+      metadata: context?.metadata,
+      onReasoning: args.include_reasoning ? reasoning => context?.extraContent?.push({ kind: 'reasoning', text: reasoning }) : undefined
+    };
+
+    if (args.output_format === 'json') {
+      const report = await generateReport(requestParams, client, options);
+      if (context) {
+        context.structuredContent = report;
+      }
+      logger.info('Cultural analysis completed successfully', { findings: report.findings.length });
+      return JSON.stringify(report, null, 2);
     }
 
-    const analysis = await client.generateText(requestParams);
+    const analysis = (await client.generateText(requestParams, options)).trim();
+    if (context) {
+      context.structuredContent = { summary: analysis };
+    }
     
     logger.info('Cultural analysis completed successfully');
-    return analysis.trim();
+    return analysis;
   } catch (error) {
     logger.error('Cultural analysis failed:', error);
-    throw new Error(`Cultural analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Cultural analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
 
+/**
+ * Build the system prompt setting the analyst's role and regional focus
+ */
+function buildAnalysisSystemPrompt(prompts: ToolPromptStore, args: CulturalAnalysisArgs): string {
+  return prompts.render('analysis.system', {
+    analysis_type: args.analysis_type,
+    country: args.target_country && Countries[args.target_country].name,
+    include_recommendations: args.include_recommendations,
+    detail_level: args.detail_level
+  }, { country: args.target_country }).text;
+}
+
 /**
  * Build analysis prompt based on analysis type and parameters
  */
-function buildAnalysisPrompt(args: CulturalAnalysisArgs): string {
-  const basePrompt = `Please analyze the following content for ${args.analysis_type.replace('_', ' ')}:\n\n"${args.content}"\n\n`;
-  
+function buildAnalysisPrompt(prompts: ToolPromptStore, args: CulturalAnalysisArgs): string {
   const analysisInstructions = {
     cultural_context: 'Identify cultural references, meanings, and significance within Southeast Asian contexts.',
     social_norms: 'Analyze how this content relates to social norms, expectations, and behaviors.',
@@ -136,10 +181,144 @@ function buildAnalysisPrompt(args: CulturalAnalysisArgs): string {
     regional_variations: 'Compare how this content might be received across different Southeast Asian regions.'
   };
 
-  const instruction = analysisInstructions[args.analysis_type];
-  const detailLevel = getDetailLevelInstruction(args.detail_level);
-  
-  return `${basePrompt}${instruction} ${detailLevel}`;
+  return prompts.render('analysis.user', {
+    analysis_type: args.analysis_type,
+    analysis_label: args.analysis_type.replace('_', ' '),
+    content: args.content,
+    country: args.target_country && Countries[args.target_country].name,
+    instruction: analysisInstructions[args.analysis_type],
+    detail_instruction: getDetailLevelInstruction(args.detail_level),
+    json_instruction: args.output_format === 'json' ? getJsonInstruction(args) : undefined
+  }, { country: args.target_country }).text;
+}
+
+/**
+ * Describe the JSON shape the model must answer with
+ */
+function getJsonInstruction(args: CulturalAnalysisArgs): string {
+  const recommendations = args.include_recommendations
+    ? 'practical recommendations addressing the finding'
+    : 'leave empty';
+
+  return `Respond with only a JSON object, without any other text, in this shape:
+{"summary": "<overall assessment>", "findings": [{"title": "<short title>", "description": "<what and why>", "severity": "<${Severities.join('|')}>", "country": "<${SeaCountries.join('|')}> or null if it applies across the region", "category": "<${CulturalAnalysisTypes.join('|')}>", "recommendations": ["<${recommendations}>"]}]}`;
+}
+
+/**
+ * Generate a JSON analysis and validate it
+ *
+ * Small syntax slips and casing differences are repaired locally. If the
+ * answer is still invalid, the model is asked once more with the errors.
+ */
+async function generateReport(
+  requestParams: any,
+  client: SeaLionClient,
+  options: GenerateTextOptions
+): Promise<AnalysisReport> {
+  const answer = await client.generateText(requestParams, options);
+  const first = parseReport(answer);
+  if ('report' in first) {
+    if (first.repaired && options.metadata) {
+      options.metadata.output_repair = 'repaired';
+    }
+    return first.report;
+  }
+
+  logger.warn('Cultural analysis JSON was invalid, asking again', { error: first.error });
+  const retryParams = {
+    ...requestParams,
+    messages: [
+      ...requestParams.messages,
+      { role: 'assistant' as const, content: answer },
+      { role: 'user' as const, content: `Your answer is not valid: ${first.error}. Reply with only the corrected JSON object.` }
+    ]
+  };
+
+  const second = parseReport(await client.generateText(retryParams, options));
+  if ('error' in second) {
+    throw new Error(`Model did not return a valid JSON analysis: ${second.error}`);
+  }
+  if (options.metadata) {
+    options.metadata.output_repair = 'reasked';
+  }
+  return second.report;
+}
+
+/**
+ * Extract and validate the JSON analysis in a model answer
+ */
+function parseReport(answer: string): { report: AnalysisReport; repaired: boolean } | { error: string } {
+  const match = answer.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return { error: 'no JSON object found' };
+  }
+
+  let raw: unknown;
+  let repaired = false;
+  try {
+    raw = JSON.parse(match[0]);
+  } catch {
+    try {
+      raw = JSON.parse(repairJson(match[0]));
+      repaired = true;
+    } catch (error) {
+      return { error: `malformed JSON (${error instanceof Error ? error.message : 'Unknown error'})` };
+    }
+  }
+
+  const parsed = AnalysisReportSchema.safeParse(raw);
+  if (parsed.success) {
+    return { report: parsed.data, repaired };
+  }
+
+  const normalized = AnalysisReportSchema.safeParse(normalizeReport(raw));
+  if (normalized.success) {
+    return { report: normalized.data, repaired: true };
+  }
+  return { error: normalized.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ') };
+}
+
+/**
+ * Fix trailing commas and typographic quotes
+ */
+function repairJson(json: string): string {
+  return json
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Bring enum-like finding fields to the expected spelling, such as
+ * "Business Etiquette" to business_etiquette or "critical" to high
+ */
+function normalizeReport(raw: unknown): unknown {
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as any).findings)) {
+    return raw;
+  }
+
+  const toKey = (value: unknown) => typeof value === 'string'
+    ? value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+    : value;
+  const severityAliases: Record<string, string> = { critical: 'high', moderate: 'medium', minor: 'low', informational: 'info' };
+  const regionWide = ['', 'none', 'all', 'regional', 'southeast_asia', 'sea'];
+
+  return {
+    ...raw,
+    findings: (raw as any).findings.map((finding: any) => {
+      if (typeof finding !== 'object' || finding === null) {
+        return finding;
+      }
+      const severity = toKey(finding.severity);
+      const country = toKey(finding.country);
+      return {
+        ...finding,
+        severity: typeof severity === 'string' ? severityAliases[severity] ?? severity : severity,
+        country: country === undefined || (typeof country === 'string' && regionWide.includes(country)) ? null : country,
+        category: toKey(finding.category),
+        recommendations: typeof finding.recommendations === 'string' ? [finding.recommendations] : finding.recommendations
+      };
+    })
+  };
 }
 
 /**
@@ -170,16 +349,47 @@ function getMaxTokensForDetail(level: 'brief' | 'detailed' | 'comprehensive'): n
   }
 }
 
+/**
+ * Get rate limit cost based on detail level, in proportion to its token budget
+ */
+function getCostForDetail(level: 'brief' | 'detailed' | 'comprehensive'): number {
+  return getMaxTokensForDetail(level) / getMaxTokensForDetail('brief');
+}
+
 /**
  * Create the cultural analysis tool definition
  */
-export function createCulturalAnalysisTool(): ToolDefinition {
+export function createCulturalAnalysisTool(prompts: ToolPromptStore): ToolDefinition {
   return {
     name: 'sealion_cultural_analysis',
     description: `Analyze content for Southeast Asian cultural context, social norms, and sensitivities. 
     Provides insights on cultural appropriateness, business etiquette, language usage, and regional variations 
-    across ${Countries.join(', ')}.`,
+    across ${SeaCountries.join(', ')}.
+    Set output_format to json for findings with severity, affected country, category and recommendations as structured content.`,
     inputSchema: CulturalAnalysisSchema,
-    handler: handleCulturalAnalysis
+    outputSchema: CulturalAnalysisOutputSchema,
+    handler: (args: CulturalAnalysisArgs, client: SeaLionClient, context?: ToolContext) => handleCulturalAnalysis(prompts, args, client, context),
+    cost: (args: CulturalAnalysisArgs) => getCostForDetail(args.detail_level),
+    sanitization: {
+      content: 'prompt'
+    }
+  };
+}
+
+/**
+ * Create the cultural review prompt definition
+ *
+ * Renders the same instructions sealion_cultural_analysis sends to the model,
+ * for clients that want to run the review with their own model.
+ */
+export function createCulturalReviewPrompt(prompts: ToolPromptStore): PromptDefinition {
+  return {
+    name: 'cultural_review',
+    description: 'Review content for cultural appropriateness in Southeast Asia, for example an email for Thai business etiquette',
+    argumentsSchema: CulturalReviewPromptSchema,
+    render: (promptArgs: CulturalReviewPromptArgs) => {
+      const args = CulturalAnalysisSchema.parse(promptArgs);
+      return [{ role: 'user', text: `${buildAnalysisSystemPrompt(prompts, args)}\n\n${buildAnalysisPrompt(prompts, args)}` }];
+    }
   };
 }
@@ -0,0 +1,72 @@
+/**
+ * Language Detection Tool
+ *
+ * This tool identifies which supported Southeast Asian language a text is
+ * written in, returning ranked candidates with confidence scores.
+ */
+
+import { z } from 'zod';
+import { ToolDefinition, ToolContext, SupportedLanguages } from '../types/index.js';
+import { SeaLionClient } from '../services/sealionClient.js';
+import { createModelSchema, modelRegistry } from '../services/modelRegistry.js';
+import { detectLanguage } from '../services/languageDetector.js';
+import { logger } from '../utils/logger.js';
+
+// Input schema for language detection tool
+const LanguageDetectionSchema = z.object({
+  text: z.string().min(1, 'Text cannot be empty').max(5000, 'Text too long for language detection'),
+  model: createModelSchema('v3').describe('Model used when the script alone is not conclusive'),
+  max_candidates: z.number().int().min(1, 'Must return at least 1 candidate').max(5, 'Cannot return more than 5 candidates').default(3)
+}).strict();
+
+type LanguageDetectionArgs = z.infer<typeof LanguageDetectionSchema>;
+
+/**
+ * Handle language detection requests
+ */
+async function handleLanguageDetection(
+  args: LanguageDetectionArgs,
+  client: SeaLionClient,
+  context?: ToolContext
+): Promise<string> {
+  logger.info('Starting language detection', { model: args.model });
+
+  try {
+    const result = await detectLanguage(args.text, client, {
+      model: modelRegistry.resolve(args.model).id,
+      maxCandidates: args.max_candidates,
+      metadata: context?.metadata
+    });
+
+    logger.info('Language detection completed successfully', {
+      language: result.candidates[0]?.language,
+      method: result.method
+    });
+
+    return JSON.stringify({
+      language: result.candidates[0]?.language ?? null,
+      candidates: result.candidates,
+      method: result.method
+    }, null, 2);
+  } catch (error) {
+    logger.error('Language detection failed:', error);
+    throw new Error(`Language detection failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+/**
+ * Create the language detection tool definition
+ */
+export function createLanguageDetectionTool(): ToolDefinition {
+  return {
+    name: 'sealion_detect_language',
+    description: `Detect the language of a text, returning ranked candidates with confidence from: ${SupportedLanguages.join(', ')}.
+    Non-Latin scripts (Thai, Lao, Khmer, Burmese, Tamil, Chinese) and Vietnamese are identified locally;
+    other Latin-script text is identified by a Sea-lion model.`,
+    inputSchema: LanguageDetectionSchema,
+    handler: handleLanguageDetection,
+    sanitization: {
+      text: 'prompt'
+    }
+  };
+}
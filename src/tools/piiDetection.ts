@@ -0,0 +1,61 @@
+/**
+ * PII Detection Tool
+ *
+ * This tool finds personal data such as Southeast Asian national ID numbers,
+ * phone numbers and emails in a text, optionally returning a redacted copy.
+ * It runs locally and never sends the text to the Sea-lion API.
+ */
+
+import { z } from 'zod';
+import { ToolDefinition } from '../types/index.js';
+import { PiiRedaction, PiiTypes, detectPii } from '../services/piiDetector.js';
+import { logger } from '../utils/logger.js';
+
+// Input schema for PII detection tool
+const PiiDetectionSchema = z.object({
+  text: z.string().min(1, 'Text cannot be empty').max(20000, 'Text too long for PII detection'),
+  types: z.array(z.enum(PiiTypes)).min(1, 'At least one PII type is required').optional()
+    .describe('PII types to look for (default: all)'),
+  redact: z.boolean().default(false).describe('Also return the text with each entity replaced by a placeholder')
+}).strict();
+
+type PiiDetectionArgs = z.infer<typeof PiiDetectionSchema>;
+
+/**
+ * Handle PII detection requests
+ */
+async function handlePiiDetection(args: PiiDetectionArgs): Promise<string> {
+  const types = args.types ?? PiiTypes;
+  const entities = detectPii(args.text, types);
+
+  logger.info('PII detection completed', {
+    entities: entities.length,
+    types: Array.from(new Set(entities.map(entity => entity.type)))
+  });
+
+  const redaction = args.redact ? new PiiRedaction(types) : undefined;
+
+  return JSON.stringify({
+    entities,
+    ...(redaction && { redacted_text: redaction.redact(args.text) })
+  }, null, 2);
+}
+
+/**
+ * Create the PII detection tool definition
+ */
+export function createPiiDetectionTool(): ToolDefinition {
+  return {
+    name: 'sealion_detect_pii',
+    description: `Find personal data in a text without sending it to any model. Detects: ${PiiTypes.join(', ')}.
+    National ID numbers are validated by checksum (Singapore NRIC/FIN, Thai ID) or by birth date and region code
+    (Malaysian MyKad, Indonesian NIK); card numbers by the Luhn check.`,
+    inputSchema: PiiDetectionSchema,
+    handler: handlePiiDetection,
+    // Runs locally without calling the Sea-lion API
+    cost: () => 0,
+    sanitization: {
+      text: 'text'
+    }
+  };
+}
@@ -6,20 +6,23 @@
  */
 
 import { z } from 'zod';
-import { ToolDefinition, SeaLionModel } from '../types/index.js';
+import { ToolDefinition, ToolContext } from '../types/index.js';
 import { SeaLionClient } from '../services/sealionClient.js';
+import { createModelSchema, modelRegistry } from '../services/modelRegistry.js';
 import { logger } from '../utils/logger.js';
 
 // Input schema for text generation tool
 const TextGenerationSchema = z.object({
   prompt: z.string().min(1, 'Prompt cannot be empty').max(10000, 'Prompt too long'),
-  model: z.enum(['v3', 'v3.5'], { 
-    errorMap: () => ({ message: 'Model must be either v3 or v3.5' })
-  }).default('v3.5'),
+  model: createModelSchema('v3.5').describe('Model alias or id; see sealion://models'),
   max_tokens: z.number().int().min(1, 'Max tokens must be at least 1').max(4096, 'Max tokens cannot exceed 4096').default(512),
   temperature: z.number().min(0, 'Temperature must be at least 0').max(2, 'Temperature cannot exceed 2').default(0.7),
-  thinking_mode: z.boolean().default(true).describe('Enable reasoning mode for v3.5 models'),
-  system_prompt: z.string().max(5000, 'System prompt too long').optional().describe('Optional system prompt for context')
+  thinking_mode: z.boolean().default(true).describe('Enable reasoning mode on models that support thinking'),
+  system_prompt: z.string().max(5000, 'System prompt too long').optional().describe('Optional system prompt for context'),
+  include_reasoning: z.boolean().default(false).describe('Return the thinking mode reasoning trace as a separate content block'),
+  cache: z.enum(['bypass', 'refresh'], {
+    errorMap: () => ({ message: 'Cache must be either bypass or refresh' })
+  }).optional().describe('Skip the response cache (bypass) or replace the cached response (refresh); only calls with temperature 0 are cached')
 }).strict();
 
 type TextGenerationArgs = z.infer<typeof TextGenerationSchema>;
@@ -29,16 +32,12 @@ type TextGenerationArgs = z.infer<typeof TextGenerationSchema>;
  */
 async function handleTextGeneration(
   args: TextGenerationArgs,
-  client: SeaLionClient
+  client: SeaLionClient,
+  context?: ToolContext
 ): Promise<string> {
   logger.info('Starting text generation', { model: args.model, thinking_mode: args.thinking_mode });
 
   try {
-    // Select the appropriate model based on version
-    const modelName = args.model === 'v3.5' 
-      ? SeaLionModel.V3_5_8B_R 
-      : SeaLionModel.V3_9B_IT;
-
     // Prepare messages
     const messages = [];
     
@@ -55,29 +54,41 @@ async function handleTextGeneration(
     });
 
     // Prepare request parameters
-    const requestParams: any = {
-      model: modelName,
+    const requestParams = {
+      ...modelRegistry.requestFields(args.model, args.thinking_mode),
       messages,
       max_tokens: args.max_tokens,
       temperature: args.temperature
     };
 
-    // Add thinking mode configuration for v3.5 models
-    if (args.model === 'v3.5') {
-      requestParams.extra_body = {
-        chat_template_kwargs: {
-          thinking_mode: args.thinking_mode ? 'on' : 'off'
-        }
-      };
-    }
+    const options = {
+      cache: args.cache,
+      metadata: context?.metadata,
+      onReasoning: args.include_reasoning
+        ? (reasoning: string) => context?.extraContent?.push({ kind: 'reasoning', text: reasoning })
+        : undefined
+    };
 
-    const response = await client.generateText(requestParams);
+    // Stream partial text back to the caller when progress was requested.
+    // The partial text can shrink when reasoning or redacted PII is split off,
+    // so progress counts the characters received, which only grows.
+    const onProgress = context?.onProgress;
+    let received = 0;
+    const response = onProgress
+      ? await client.generateTextStream(requestParams, async (delta, text) => {
+          received += delta.length;
+          await onProgress({
+            progress: received,
+            message: text
+          });
+        }, options)
+      : await client.generateText(requestParams, options);
     
     logger.info('Text generation completed successfully');
     return response;
   } catch (error) {
     logger.error('Text generation failed:', error);
-    throw new Error(`Text generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Text generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
 
@@ -87,8 +98,12 @@ async function handleTextGeneration(
 export function createTextGenerationTool(): ToolDefinition {
   return {
     name: 'sealion_generate_text',
-    description: 'Generate text using Sea-lion Southeast Asian language models. Supports both standard and reasoning modes with model switching between v3 and v3.5.',
+    description: 'Generate text using Sea-lion Southeast Asian language models. Supports both standard and reasoning modes with model switching between the Sea-lion models in sealion://models.',
     inputSchema: TextGenerationSchema,
-    handler: handleTextGeneration
+    handler: handleTextGeneration,
+    sanitization: {
+      prompt: 'text',
+      system_prompt: 'text'
+    }
   };
 }
@@ -6,122 +6,949 @@
  */
 
 import { z } from 'zod';
-import { ToolDefinition, SeaLionModel } from '../types/index.js';
-import { SeaLionClient } from '../services/sealionClient.js';
+import {
+  ToolDefinition,
+  ToolContext,
+  ToolResultMetadata,
+  PromptDefinition,
+  SupportedLanguages,
+  SupportedLanguage,
+  SeaCountries,
+  Countries
+} from '../types/index.js';
+import { SeaLionClient, GenerateTextOptions } from '../services/sealionClient.js';
+import { createModelSchema, modelRegistry } from '../services/modelRegistry.js';
+import { recordBackends } from '../services/inferenceBackends.js';
+import {
+  GlossaryStore,
+  GlossaryTerm,
+  GlossaryViolation,
+  GLOSSARY_ID_PATTERN,
+  buildGlossaryInstructions,
+  findGlossaryViolations,
+  selectGlossaryTerms
+} from '../services/glossary.js';
 import { logger } from '../utils/logger.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { detectLanguage, LanguageCandidate } from '../services/languageDetector.js';
+import { QualityReport, assessTranslationQuality } from '../services/translationQuality.js';
+import { TranslationMatch, TranslationMemory, UnitEntry, getMemoryOwner } from '../services/translationMemory.js';
+import { ToolPromptId, ToolPromptStore } from '../services/toolPrompts.js';
+import { chunkText, estimateTranslationTokens, takeLastTokens } from '../utils/segmentation.js';
+import {
+  DocumentFormat,
+  DocumentFormats,
+  ParsedDocument,
+  getSegmentSource,
+  isTranslatable,
+  parseDocument,
+  restoreSegment,
+  validateDocument
+} from '../utils/documentFormats.js';
 
-// Supported Southeast Asian languages
-const SupportedLanguages = [
-  'english', 'indonesian', 'thai', 'vietnamese', 'filipino', 
-  'malay', 'burmese', 'khmer', 'lao', 'tamil', 'chinese'
-] as const;
+// Largest batch accepted by sealion_translate_batch
+const MAX_BATCH_ITEMS = 200;
+
+// Minimum spacing between API calls within a batch
+const BATCH_MIN_INTERVAL_MS = 200;
+
+// Most fuzzy translation memory matches offered to the model
+const MAX_MEMORY_REFERENCES = 3;
+
+// Lowest quality score at which a checked translation is recorded in the memory
+const MIN_RECORD_QUALITY = 0.6;
+
+// Segments of a structured document translated at once
+const SEGMENT_CONCURRENCY = 4;
+
+// Largest document accepted by sealion_translate_document
+const MAX_DOCUMENT_CHARS = 200000;
+
+// Output token ceiling for a single translation request
+const MAX_TRANSLATION_TOKENS = 4096;
+
+// Extra output tokens for the reasoning trace of thinking models
+const REASONING_TOKEN_ALLOWANCE = 1024;
+
+// Prompt templates behind every translation request
+const TRANSLATION_PROMPTS: ToolPromptId[] = ['translation.system', 'translation.user'];
 
 // Input schema for translation tool
 const TranslationSchema = z.object({
   text: z.string().min(1, 'Text to translate cannot be empty').max(5000, 'Text too long for translation'),
-  source_language: z.enum(SupportedLanguages, {
-    errorMap: () => ({ message: `Source language must be one of: ${SupportedLanguages.join(', ')}` })
-  }),
+  source_language: z.enum([...SupportedLanguages, 'auto'], {
+    errorMap: () => ({ message: `Source language must be auto or one of: ${SupportedLanguages.join(', ')}` })
+  }).describe('Language of the text, or auto to detect it'),
   target_language: z.enum(SupportedLanguages, {
     errorMap: () => ({ message: `Target language must be one of: ${SupportedLanguages.join(', ')}` })
   }),
-  model: z.enum(['v3', 'v3.5'], {
-    errorMap: () => ({ message: 'Model must be either v3 or v3.5' })
-  }).default('v3.5'),
+  model: createModelSchema('v3.5').describe('Model alias or id; see sealion://models'),
   preserve_cultural_context: z.boolean().default(true).describe('Maintain cultural nuances in translation'),
-  formal_register: z.boolean().default(false).describe('Use formal language register')
+  formal_register: z.boolean().default(false).describe('Use formal language register'),
+  include_reasoning: z.boolean().default(false).describe('Return the thinking mode reasoning trace as a separate content block'),
+  glossary: z.string().regex(GLOSSARY_ID_PATTERN, 'Glossary id may only contain letters, digits, _ and -').optional()
+    .describe('Id of a glossary whose terms the translation must use'),
+  retry_on_glossary_violation: z.boolean().default(false)
+    .describe('Ask the model once more to fix glossary terms missing from the translation'),
+  format: z.enum(DocumentFormats, {
+    errorMap: () => ({ message: `Format must be one of: ${DocumentFormats.join(', ')}` })
+  }).default('text').describe('Structure of the text; markup, timestamps and placeholders are kept intact and only the text is translated'),
+  quality_check: z.boolean().default(false)
+    .describe('Back-translate the result into the source language and return a quality score with flagged sentences'),
+  translation_memory: z.boolean().default(true)
+    .describe('Serve exact matches from the translation memory and offer close matches to the model (plain text only)'),
+  record: z.boolean().optional()
+    .describe('Approve the translation for the translation memory; it is stored if it has no glossary violations and passes quality_check when that is set. Defaults to the server\'s TM_AUTO_RECORD setting'),
+  cache: z.enum(['bypass', 'refresh'], {
+    errorMap: () => ({ message: 'Cache must be either bypass or refresh' })
+  }).optional().describe('Skip the response cache (bypass) or replace the cached response (refresh)')
+}).strict();
+
+// Input schema for batch translation tool, sharing the single-text options
+const TranslationBatchSchema = TranslationSchema.omit({ text: true, include_reasoning: true, format: true, quality_check: true, translation_memory: true }).extend({
+  items: z.array(z.object({
+    id: z.string().min(1, 'Item ID cannot be empty').max(128, 'Item ID too long'),
+    text: z.string().min(1, 'Text to translate cannot be empty').max(5000, 'Text too long for translation')
+  }).strict()).min(1, 'At least one item is required').max(MAX_BATCH_ITEMS, `Batch cannot exceed ${MAX_BATCH_ITEMS} items`)
+    .refine(items => new Set(items.map(item => item.id)).size === items.length, {
+      message: 'Item IDs must be unique'
+    })
+    .describe('Texts to translate, each with a caller-chosen ID'),
+  concurrency: z.number().int().min(1, 'Concurrency must be at least 1').max(8, 'Concurrency cannot exceed 8').default(4)
+    .describe('Maximum number of items translated at once')
+});
+
+// Input schema for document translation tool, sharing the single-text options
+const DocumentTranslationSchema = TranslationSchema.omit({ text: true, include_reasoning: true, format: true, quality_check: true, translation_memory: true }).extend({
+  text: z.string().min(1, 'Document cannot be empty').max(MAX_DOCUMENT_CHARS, `Document cannot exceed ${MAX_DOCUMENT_CHARS} characters`),
+  max_chunk_tokens: z.number().int().min(100, 'Chunks must allow at least 100 tokens').max(2000, 'Chunks cannot exceed 2000 tokens').default(600)
+    .describe('Largest piece of the document sent in one request, in estimated tokens'),
+  context_tokens: z.number().int().min(0, 'Context cannot be negative').max(1000, 'Context cannot exceed 1000 tokens').default(200)
+    .describe('Estimated tokens of the previous chunk and its translation passed along for consistency (0 to disable)')
+});
+
+// Arguments of the localization prompt
+const LocalizationPromptSchema = z.object({
+  text: TranslationSchema.shape.text.describe('Text to localize'),
+  target_language: TranslationSchema.shape.target_language.describe('Language to localize into'),
+  source_language: z.enum(SupportedLanguages, {
+    errorMap: () => ({ message: `Source language must be one of: ${SupportedLanguages.join(', ')}` })
+  }).optional().describe('Language of the text (default: left to the model)'),
+  target_country: z.enum(SeaCountries, {
+    errorMap: () => ({ message: `Target country must be one of: ${SeaCountries.join(', ')}` })
+  }).optional().describe('Country whose readers the text is adapted for'),
+  content_type: z.string().min(1, 'Content type cannot be empty').max(100, 'Content type too long').optional()
+    .describe('Kind of text, such as push notification or product description')
 }).strict();
 
 type TranslationArgs = z.infer<typeof TranslationSchema>;
+type TranslationBatchArgs = z.infer<typeof TranslationBatchSchema>;
+type DocumentTranslationArgs = z.infer<typeof DocumentTranslationSchema>;
+type LocalizationPromptArgs = z.infer<typeof LocalizationPromptSchema>;
+
+/**
+ * Per-item outcome of a batch translation
+ */
+type BatchItemResult =
+  | {
+    id: string;
+    status: 'ok';
+    translation: string;
+    cached?: boolean;
+    detected_source_language?: SupportedLanguage;
+    glossary_violations?: GlossaryViolation[];
+  }
+  | { id: string; status: 'error'; error: string };
+
+// Fields that shape the translation request, shared with batch translation
+type TranslationRequestArgs = Pick<TranslationArgs,
+  'text' | 'target_language' | 'model' | 'preserve_cultural_context' | 'formal_register' | 'retry_on_glossary_violation'> & {
+  source_language: SupportedLanguage;
+};
+
+/**
+ * Document context for translating one chunk or segment of a document
+ */
+interface SegmentContext {
+  /**
+   * End of the previous chunk and its translation
+   */
+  previous?: { source: string; translation: string };
+  preserveLayout?: boolean;
+
+  /**
+   * The text contains [[n]] tokens standing for markup and placeholders
+   */
+  protectedTokens?: boolean;
+
+  /**
+   * Close translation memory matches to reuse wording from
+   */
+  references?: TranslationMatch[];
+}
+
+/**
+ * Get the prompt templates a translation call uses, including the glossary
+ * correction when a violation may be sent back to the model
+ */
+function getTranslationPrompts(args: Pick<TranslationArgs, 'glossary' | 'retry_on_glossary_violation'>): ToolPromptId[] {
+  return args.glossary && args.retry_on_glossary_violation
+    ? [...TRANSLATION_PROMPTS, 'translation.glossary_retry']
+    : TRANSLATION_PROMPTS;
+}
+
+/**
+ * Build the translator system prompt with the register and terminology to use
+ */
+function buildTranslationSystemPrompt(
+  prompts: ToolPromptStore,
+  args: Pick<TranslationRequestArgs, 'target_language' | 'preserve_cultural_context' | 'formal_register'> & {
+    source_language?: SupportedLanguage;
+  },
+  terms: GlossaryTerm[] = []
+): string {
+  return prompts.render('translation.system', {
+    source_language: args.source_language,
+    target_language: args.target_language,
+    preserve_cultural_context: args.preserve_cultural_context,
+    formal_register: args.formal_register,
+    glossary: terms.length > 0 ? buildGlossaryInstructions(terms) : undefined
+  }, { language: args.target_language }).text;
+}
+
+/**
+ * Build the chat completion request for translating one text
+ */
+function buildTranslationRequest(
+  prompts: ToolPromptStore,
+  args: TranslationRequestArgs,
+  terms: GlossaryTerm[] = [],
+  segment: SegmentContext = {}
+): any {
+  // Construct translation prompt with cultural context
+  const systemPrompt = buildTranslationSystemPrompt(prompts, args, terms);
+
+  const references = segment.references && segment.references.length > 0
+    ? segment.references.map(match => `Text: "${match.unit.source}"\nTranslation: "${match.unit.target}"`).join('\n\n')
+    : undefined;
+
+  const userPrompt = prompts.render('translation.user', {
+    source_language: args.source_language,
+    target_language: args.target_language,
+    text: args.text,
+    references,
+    previous_source: segment.previous?.source,
+    previous_translation: segment.previous?.translation,
+    preserve_layout: segment.preserveLayout,
+    protected_tokens: segment.protectedTokens
+  }, { language: args.target_language }).text;
+
+  const messages = [
+    {
+      role: 'system' as const,
+      content: systemPrompt
+    },
+    {
+      role: 'user' as const,
+      content: userPrompt
+    }
+  ];
+
+  // Use thinking mode where the model supports it to improve translation quality
+  return {
+    ...modelRegistry.requestFields(args.model, true),
+    messages,
+    max_tokens: getMaxTokens(args),
+    temperature: 0.3 // Lower temperature for more consistent translations
+  };
+}
+
+/**
+ * Size the output budget from the script-aware length of the translation
+ */
+function getMaxTokens(args: TranslationRequestArgs): number {
+  const estimate = estimateTranslationTokens(args.text, args.source_language, args.target_language);
+  const allowance = modelRegistry.resolve(args.model).thinking ? REASONING_TOKEN_ALLOWANCE : 0;
+  return Math.min(MAX_TRANSLATION_TOKENS, Math.max(256, Math.ceil(estimate * 1.5) + allowance));
+}
+
+/**
+ * Translate one text, checking the result against the glossary terms
+ *
+ * With retry_on_glossary_violation, a translation that misses terms is sent
+ * back to the model once with the missing terms listed.
+ */
+async function translateText(
+  prompts: ToolPromptStore,
+  args: TranslationRequestArgs,
+  terms: GlossaryTerm[],
+  client: SeaLionClient,
+  options: GenerateTextOptions,
+  segment?: SegmentContext
+): Promise<{ translation: string; violations: GlossaryViolation[] }> {
+  const requestParams = buildTranslationRequest(prompts, args, terms, segment);
+  // The same text should translate the same way, so translations are cached despite the sampling
+  const generateOptions: GenerateTextOptions = { ...options, cacheable: true };
+  let translation = (await client.generateText(requestParams, generateOptions)).trim();
+  let violations = findGlossaryViolations(terms, translation);
+
+  if (violations.length > 0 && args.retry_on_glossary_violation) {
+    logger.info('Retrying translation to fix glossary violations', { violations: violations.length });
+    const retryParams = {
+      ...requestParams,
+      messages: [
+        ...requestParams.messages,
+        { role: 'assistant' as const, content: translation },
+        {
+          role: 'user' as const,
+          content: prompts.render('translation.glossary_retry', {
+            source_language: args.source_language,
+            target_language: args.target_language,
+            violations: formatViolations(violations)
+          }, { language: args.target_language }).text
+        }
+      ]
+    };
+    translation = (await client.generateText(retryParams, generateOptions)).trim();
+    violations = findGlossaryViolations(terms, translation);
+  }
+
+  if (violations.length > 0) {
+    logger.warn('Translation does not follow glossary', { violations: violations.length });
+  }
+  return { translation, violations };
+}
+
+/**
+ * List glossary violations one per line
+ */
+function formatViolations(violations: GlossaryViolation[]): string {
+  return violations
+    .map(violation => violation.do_not_translate
+      ? `- "${violation.source}" must be kept untranslated`
+      : `- "${violation.source}" must be translated as "${violation.expected}"`)
+    .join('\n');
+}
+
+/**
+ * Describe the options that shape a translation, so the translation memory
+ * only serves a model translation to calls made with the same options
+ */
+function getMemoryVariant(args: TranslationArgs): string {
+  return JSON.stringify({
+    model: modelRegistry.resolve(args.model).id,
+    formal_register: args.formal_register,
+    preserve_cultural_context: args.preserve_cultural_context,
+    glossary: args.glossary ?? null
+  });
+}
+
+/**
+ * Record a model translation in the translation memory
+ *
+ * A failed write is logged rather than failing the translation.
+ */
+async function recordTranslation(memory: TranslationMemory, owner: string, entry: UnitEntry): Promise<boolean> {
+  try {
+    const { unit } = await memory.add(owner, entry, 'model');
+    return unit.origin === 'model';
+  } catch (error) {
+    logger.warn('Failed to record translation in memory', { error: error instanceof Error ? error.message : 'Unknown error' });
+    return false;
+  }
+}
+
+/**
+ * Back-translate a translation into the source language and score it
+ * against the original text
+ */
+async function checkTranslationQuality(
+  prompts: ToolPromptStore,
+  args: TranslationArgs,
+  sourceLanguage: SupportedLanguage,
+  translation: string,
+  client: SeaLionClient,
+  context?: ToolContext
+): Promise<QualityReport> {
+  const metadata: ToolResultMetadata = {};
+  const { translation: backTranslation } = await translateText(
+    prompts,
+    {
+      ...args,
+      text: translation,
+      source_language: args.target_language,
+      target_language: sourceLanguage,
+      preserve_cultural_context: false,
+      retry_on_glossary_violation: false
+    },
+    [],
+    client,
+    { cache: args.cache, metadata }
+  );
+  recordBackends(context?.metadata, metadata.backends);
+
+  const report = assessTranslationQuality(args.text, translation, backTranslation, args.target_language);
+  logger.info('Translation quality estimated', {
+    score: report.score,
+    chrf: report.chrf,
+    flagged: report.flagged_segments.length
+  });
+  return report;
+}
+
+/**
+ * Summarise a quality report for the content block after the translation
+ */
+function formatQualityReport(report: QualityReport, targetLanguage: SupportedLanguage): string {
+  const lines = [
+    `Quality score: ${report.score} (chrF ${report.chrf}, token overlap ${report.token_overlap}, ` +
+      `${Math.round(report.script_share * 100)}% in the ${targetLanguage} script)`,
+    `Back-translation: ${report.back_translation}`
+  ];
+  if (report.flagged_segments.length > 0) {
+    lines.push('Flagged segments:', ...report.flagged_segments.map(segment =>
+      `- "${segment.source}" came back as "${segment.back_translation}" (chrF ${segment.chrf})`));
+  }
+  lines.push(...report.warnings.map(warning => `Warning: ${warning}`));
+  return lines.join('\n');
+}
+
+/**
+ * Resolve the source language, detecting it when the caller passed 'auto'
+ */
+async function resolveSourceLanguage(
+  sourceLanguage: SupportedLanguage | 'auto',
+  text: string,
+  client: SeaLionClient,
+  context?: ToolContext
+): Promise<{ language: SupportedLanguage; detected?: LanguageCandidate }> {
+  if (sourceLanguage !== 'auto') {
+    return { language: sourceLanguage };
+  }
+
+  const metadata: ToolResultMetadata = {};
+  const { candidates } = await detectLanguage(text, client, { maxCandidates: 1, metadata });
+  recordBackends(context?.metadata, metadata.backends);
+  if (candidates.length === 0) {
+    throw new Error('Could not detect the source language; please specify source_language');
+  }
+
+  logger.info('Detected source language', candidates[0]);
+  return { language: candidates[0].language, detected: candidates[0] };
+}
 
 /**
  * Handle translation requests
  */
 async function handleTranslation(
+  glossaries: GlossaryStore,
+  memory: TranslationMemory,
+  prompts: ToolPromptStore,
   args: TranslationArgs,
-  client: SeaLionClient
+  client: SeaLionClient,
+  context?: ToolContext
 ): Promise<string> {
   logger.info('Starting translation', { 
     from: args.source_language, 
     to: args.target_language,
     model: args.model 
   });
-
-  if (args.source_language === args.target_language) {
-    return `The text is already in ${args.target_language}. Original text: ${args.text}`;
+  if (context?.metadata) {
+    context.metadata.prompt_versions = prompts.versions(getTranslationPrompts(args), { language: args.target_language });
   }
 
   try {
-    // Select the appropriate model
-    const modelName = args.model === 'v3.5' 
-      ? SeaLionModel.V3_5_8B_R 
-      : SeaLionModel.V3_9B_IT;
-
-    // Construct translation prompt with cultural context
-    const culturalContext = args.preserve_cultural_context 
-      ? ' Please preserve cultural nuances, idioms, and context-specific meanings.'
-      : '';
-    
-    const formalRegister = args.formal_register 
-      ? ' Use formal language register appropriate for professional or academic contexts.'
-      : '';
+    const format = args.format === 'text' ? undefined : args.format;
+    if (format && args.quality_check) {
+      throw new Error('quality_check is only available for plain text');
+    }
 
-    const systemPrompt = `You are an expert translator specializing in Southeast Asian languages and cultures. 
-    You understand the cultural nuances, idioms, and context-specific meanings of each language.${culturalContext}${formalRegister}`;
+    const document = format && parseDocument(args.text, format);
+    const plainText = document
+      ? document.segments.filter(isTranslatable).map(segment => segment.text).join('\n')
+      : args.text;
+    if (!plainText) {
+      return args.text;
+    }
 
-    const userPrompt = `Translate the following text from ${args.source_language} to ${args.target_language}:
+    const source = await resolveSourceLanguage(args.source_language, plainText, client, context);
+    if (source.detected && context?.metadata) {
+      context.metadata.detected_source_language = source.detected.language;
+      context.metadata.detection_confidence = source.detected.confidence;
+    }
 
-"${args.text}"
+    if (source.language === args.target_language) {
+      return document ? args.text : `The text is already in ${args.target_language}. Original text: ${args.text}`;
+    }
 
-Provide only the translation without additional explanations.`;
+    if (format && document) {
+      return await translateStructuredDocument(glossaries, prompts, args, format, document, source.language, client, context);
+    }
 
-    const messages = [
-      {
-        role: 'system' as const,
-        content: systemPrompt
-      },
-      {
-        role: 'user' as const,
-        content: userPrompt
-      }
-    ];
+    const terms = args.glossary
+      ? selectGlossaryTerms(glossaries.get(args.glossary), source.language, args.target_language, args.text)
+      : [];
 
-    const requestParams: any = {
-      model: modelName,
-      messages,
-      max_tokens: Math.max(args.text.length * 2, 256),
-      temperature: 0.3 // Lower temperature for more consistent translations
-    };
+    // A caller bypassing or refreshing the cache wants a fresh model translation
+    const owner = getMemoryOwner(context?.client);
+    const variant = getMemoryVariant(args);
+    const exact = args.translation_memory && !args.cache
+      ? await memory.lookup(owner, source.language, args.target_language, args.text, variant)
+      : undefined;
+    const references = args.translation_memory && !exact
+      ? await memory.search(owner, source.language, args.target_language, args.text, { limit: MAX_MEMORY_REFERENCES })
+      : [];
 
-    // Add thinking mode for v3.5 to improve translation quality
-    if (args.model === 'v3.5') {
-      requestParams.extra_body = {
-        chat_template_kwargs: {
-          thinking_mode: 'on'
-        }
-      };
+    // Keep only the reasoning behind the final attempt
+    let reasoning: string | undefined;
+    const { translation, violations } = exact
+      ? { translation: exact.target, violations: findGlossaryViolations(terms, exact.target) }
+      : await translateText(prompts, { ...args, source_language: source.language }, terms, client, {
+        cache: args.cache,
+        metadata: context?.metadata,
+        onReasoning: args.include_reasoning ? trace => { reasoning = trace; } : undefined
+      }, { references });
+
+    if (reasoning) {
+      context?.extraContent?.push({ kind: 'reasoning', text: reasoning });
+    }
+    if (args.glossary && context?.metadata) {
+      context.metadata.glossary = { id: args.glossary, terms: terms.length, violations };
+    }
+    if (violations.length > 0) {
+      context?.extraContent?.push({ kind: 'glossary', text: `Glossary violations:\n${formatViolations(violations)}` });
+    }
+
+    let quality: QualityReport | undefined;
+    if (args.quality_check) {
+      quality = await checkTranslationQuality(prompts, args, source.language, translation, client, context);
+      if (context?.metadata) {
+        context.metadata.quality = quality;
+      }
+      context?.extraContent?.push({ kind: 'quality', text: formatQualityReport(quality, args.target_language) });
     }
 
-    const translation = await client.generateText(requestParams);
+    if (args.translation_memory) {
+      // A translation the caller approved is only recorded if it passes the glossary and quality checks
+      const approved = (args.record ?? memory.autoRecord) &&
+        violations.length === 0 && (!quality || quality.score >= MIN_RECORD_QUALITY);
+      const recorded = !exact && approved &&
+        await recordTranslation(memory, owner, {
+          source_language: source.language,
+          target_language: args.target_language,
+          source: args.text,
+          target: translation,
+          variant
+        });
+      if (context?.metadata) {
+        context.metadata.translation_memory = {
+          match: exact ? 'exact' : references.length > 0 ? 'fuzzy' : 'none',
+          ...(exact && { id: exact.id, origin: exact.origin }),
+          references: references.map(match => ({ id: match.unit.id, score: match.score })),
+          recorded
+        };
+      }
+    }
     
     logger.info('Translation completed successfully');
-    return translation.trim();
+    return translation;
   } catch (error) {
     logger.error('Translation failed:', error);
-    throw new Error(`Translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new Error(`Translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
   }
 }
 
+/**
+ * Translate the text segments of a structured document and rebuild it
+ *
+ * A segment whose translation loses a protected token keeps its original
+ * text and is listed in the result metadata. The rebuilt document is parsed
+ * again and rejected if its structure no longer matches the original.
+ */
+async function translateStructuredDocument(
+  glossaries: GlossaryStore,
+  prompts: ToolPromptStore,
+  args: TranslationArgs,
+  format: Exclude<DocumentFormat, 'text'>,
+  document: ParsedDocument,
+  sourceLanguage: SupportedLanguage,
+  client: SeaLionClient,
+  context?: ToolContext
+): Promise<string> {
+  const glossaryTerms = args.glossary ? glossaries.get(args.glossary) : [];
+  const pending = document.segments
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) => isTranslatable(segment));
+
+  const texts = document.segments.map(getSegmentSource);
+  const violations: GlossaryViolation[] = [];
+  const untranslated: number[] = [];
+  let cachedSegments = 0;
+  let completed = 0;
+
+  await mapWithConcurrency(
+    pending,
+    { concurrency: SEGMENT_CONCURRENCY, minIntervalMs: BATCH_MIN_INTERVAL_MS },
+    async ({ segment, index }) => {
+      const metadata: ToolResultMetadata = {};
+      const terms = selectGlossaryTerms(glossaryTerms, sourceLanguage, args.target_language, segment.text);
+      let result: { translation: string; violations: GlossaryViolation[] };
+      try {
+        result = await translateText(
+          prompts,
+          { ...args, text: segment.text, source_language: sourceLanguage },
+          terms,
+          client,
+          { cache: args.cache, metadata },
+          { preserveLayout: segment.text.includes('\n'), protectedTokens: segment.tokens.length > 0 }
+        );
+      } catch (error) {
+        throw new Error(`Segment ${index + 1} failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+      }
+
+      const restored = restoreSegment(segment, unwrapQuotes(result.translation, segment.text), format);
+      if (restored.missing.length > 0) {
+        logger.warn('Segment translation lost protected tokens', { segment: index + 1, missing: restored.missing });
+        untranslated.push(index + 1);
+      } else {
+        texts[index] = restored.text;
+      }
+      violations.push(...result.violations);
+      recordBackends(context?.metadata, metadata.backends);
+      if (metadata.cache === 'hit') {
+        cachedSegments++;
+      }
+
+      completed++;
+      await context?.onProgress?.({
+        progress: completed,
+        total: pending.length,
+        message: `Translated ${completed} of ${pending.length} segments`
+      });
+    }
+  );
+
+  const output = document.rebuild(texts);
+  const problems = validateDocument(args.text, output, format);
+  if (problems.length > 0) {
+    throw new Error(`Translated ${format} document is invalid: ${problems.join('; ')}`);
+  }
+
+  if (context?.metadata) {
+    context.metadata.format = {
+      type: format,
+      segments: pending.length,
+      untranslated_segments: untranslated.sort((a, b) => a - b)
+    };
+    if (cachedSegments > 0) {
+      context.metadata.cached_segments = cachedSegments;
+    }
+    if (args.glossary) {
+      context.metadata.glossary = { id: args.glossary, violations };
+    }
+  }
+  if (violations.length > 0) {
+    context?.extraContent?.push({ kind: 'glossary', text: `Glossary violations:\n${formatViolations(violations)}` });
+  }
+
+  logger.info('Structured translation completed', { format, segments: pending.length, untranslated: untranslated.length });
+  return output;
+}
+
+/**
+ * Handle batch translation requests
+ *
+ * Items are translated with bounded concurrency and paced API calls. A failed
+ * item is reported in its own result without affecting the others.
+ */
+async function handleTranslationBatch(
+  glossaries: GlossaryStore,
+  prompts: ToolPromptStore,
+  args: TranslationBatchArgs,
+  client: SeaLionClient,
+  context?: ToolContext
+): Promise<string> {
+  logger.info('Starting batch translation', {
+    from: args.source_language,
+    to: args.target_language,
+    model: args.model,
+    items: args.items.length,
+    concurrency: args.concurrency
+  });
+  if (context?.metadata) {
+    context.metadata.prompt_versions = prompts.versions(getTranslationPrompts(args), { language: args.target_language });
+  }
+
+  const glossaryTerms = args.glossary ? glossaries.get(args.glossary) : [];
+
+  let completed = 0;
+  const results = await mapWithConcurrency(
+    args.items,
+    { concurrency: args.concurrency, minIntervalMs: BATCH_MIN_INTERVAL_MS },
+    async (item): Promise<BatchItemResult> => {
+      let result: BatchItemResult;
+
+      try {
+        const source = await resolveSourceLanguage(args.source_language, item.text, client, context);
+        const detected = source.detected && { detected_source_language: source.language };
+
+        if (source.language === args.target_language) {
+          result = { id: item.id, status: 'ok', translation: item.text, ...detected };
+        } else {
+          const metadata: ToolResultMetadata = {};
+          const terms = selectGlossaryTerms(glossaryTerms, source.language, args.target_language, item.text);
+          const { translation, violations } = await translateText(
+            prompts,
+            { ...args, text: item.text, source_language: source.language },
+            terms,
+            client,
+            { cache: args.cache, metadata }
+          );
+          recordBackends(context?.metadata, metadata.backends);
+          result = {
+            id: item.id,
+            status: 'ok',
+            translation,
+            ...(metadata.cache === 'hit' && { cached: true }),
+            ...detected,
+            ...(violations.length > 0 && { glossary_violations: violations })
+          };
+        }
+      } catch (error) {
+        logger.warn('Batch item translation failed', { id: item.id, error: error instanceof Error ? error.message : 'Unknown error' });
+        result = { id: item.id, status: 'error', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      completed++;
+      await context?.onProgress?.({
+        progress: completed,
+        total: args.items.length,
+        message: `Translated ${completed} of ${args.items.length} items`
+      });
+      return result;
+    }
+  );
+
+  const failed = results.filter(result => result.status === 'error').length;
+  logger.info('Batch translation completed', { succeeded: results.length - failed, failed });
+
+  return JSON.stringify({
+    source_language: args.source_language,
+    target_language: args.target_language,
+    total: results.length,
+    succeeded: results.length - failed,
+    failed,
+    results
+  }, null, 2);
+}
+
+/**
+ * Handle document translation requests
+ *
+ * The document is split on paragraph and sentence boundaries and translated
+ * chunk by chunk, each with the end of the previous chunk as context. The
+ * translations are joined back with the original whitespace between them.
+ */
+async function handleDocumentTranslation(
+  glossaries: GlossaryStore,
+  prompts: ToolPromptStore,
+  args: DocumentTranslationArgs,
+  client: SeaLionClient,
+  context?: ToolContext
+): Promise<string> {
+  logger.info('Starting document translation', {
+    from: args.source_language,
+    to: args.target_language,
+    model: args.model,
+    length: args.text.length
+  });
+  if (context?.metadata) {
+    context.metadata.prompt_versions = prompts.versions(getTranslationPrompts(args), { language: args.target_language });
+  }
+
+  try {
+    const source = await resolveSourceLanguage(args.source_language, args.text, client, context);
+    if (source.detected && context?.metadata) {
+      context.metadata.detected_source_language = source.detected.language;
+      context.metadata.detection_confidence = source.detected.confidence;
+    }
+
+    if (source.language === args.target_language) {
+      return args.text;
+    }
+
+    const glossaryTerms = args.glossary ? glossaries.get(args.glossary) : [];
+    const chunks = chunkText(args.text, args.max_chunk_tokens);
+    const translated: string[] = [];
+    const violations: GlossaryViolation[] = [];
+    let cachedChunks = 0;
+    let previous: SegmentContext['previous'];
+
+    for (const [index, chunk] of chunks.entries()) {
+      if (!chunk.text) {
+        translated.push(chunk.leading + chunk.trailing);
+        continue;
+      }
+
+      const metadata: ToolResultMetadata = {};
+      const terms = selectGlossaryTerms(glossaryTerms, source.language, args.target_language, chunk.text);
+      let result: { translation: string; violations: GlossaryViolation[] };
+      try {
+        result = await translateText(
+          prompts,
+          { ...args, text: chunk.text, source_language: source.language },
+          terms,
+          client,
+          { cache: args.cache, metadata },
+          { previous, preserveLayout: true }
+        );
+      } catch (error) {
+        throw new Error(`Chunk ${index + 1} of ${chunks.length} failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+      }
+
+      const translation = unwrapQuotes(result.translation, chunk.text);
+      translated.push(chunk.leading + translation + chunk.trailing);
+      violations.push(...result.violations);
+      recordBackends(context?.metadata, metadata.backends);
+      if (metadata.cache === 'hit') {
+        cachedChunks++;
+      }
+
+      previous = args.context_tokens > 0
+        ? { source: takeLastTokens(chunk.text, args.context_tokens), translation: takeLastTokens(translation, args.context_tokens) }
+        : undefined;
+
+      await context?.onProgress?.({
+        progress: index + 1,
+        total: chunks.length,
+        message: `Translated chunk ${index + 1} of ${chunks.length}`
+      });
+    }
+
+    if (context?.metadata) {
+      context.metadata.chunks = chunks.length;
+      if (cachedChunks > 0) {
+        context.metadata.cached_chunks = cachedChunks;
+      }
+      if (args.glossary) {
+        context.metadata.glossary = { id: args.glossary, violations };
+      }
+    }
+    if (violations.length > 0) {
+      context?.extraContent?.push({ kind: 'glossary', text: `Glossary violations:\n${formatViolations(violations)}` });
+    }
+
+    logger.info('Document translation completed', { chunks: chunks.length });
+    return translated.join('');
+  } catch (error) {
+    logger.error('Document translation failed:', error);
+    throw new Error(`Document translation failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
+  }
+}
+
+/**
+ * Remove quotes the model put around a translation when the source had none
+ */
+function unwrapQuotes(translation: string, source: string): string {
+  const quoted = /^(["\u201C])([\s\S]*)(["\u201D])$/.exec(translation);
+  return quoted && !/^["\u201C]/.test(source) ? quoted[2].trim() : translation;
+}
+
 /**
  * Create the translation tool definition
  */
-export function createTranslationTool(): ToolDefinition {
+export function createTranslationTool(glossaries: GlossaryStore, memory: TranslationMemory, prompts: ToolPromptStore): ToolDefinition {
   return {
     name: 'sealion_translate',
     description: `Translate text between Southeast Asian languages using Sea-lion models. 
-    Supports: ${SupportedLanguages.join(', ')}. 
-    Preserves cultural context and nuances specific to Southeast Asian cultures.`,
+    Supports: ${SupportedLanguages.join(', ')}. Set source_language to auto to detect it. 
+    Preserves cultural context and nuances specific to Southeast Asian cultures. 
+    Pass a glossary id to enforce terminology; missed terms are reported with the translation. 
+    Set format to markdown, html, srt or i18n_json to translate only the text of a structured document, 
+    keeping markup, links, timestamps and {placeholders} intact. 
+    Set quality_check to back-translate the result and get a quality score with flagged sentences. 
+    Exact translation memory matches are returned without a model call, and close matches are offered to the model as references. 
+    Set record to approve the translation for the memory: it is stored for the caller if it has no glossary violations 
+    and, when quality_check is set, scores at least ${MIN_RECORD_QUALITY}. Without record, the server's default applies (off unless configured).`,
     inputSchema: TranslationSchema,
-    handler: handleTranslation
+    handler: (args: TranslationArgs, client: SeaLionClient, context?: ToolContext) => handleTranslation(glossaries, memory, prompts, args, client, context),
+    // A quality check adds a back-translation request
+    cost: (args: TranslationArgs) => args.quality_check ? 2 : 1,
+    sanitization: {
+      text: 'prompt'
+    }
+  };
+}
+
+/**
+ * Create the batch translation tool definition
+ */
+export function createTranslationBatchTool(glossaries: GlossaryStore, prompts: ToolPromptStore): ToolDefinition {
+  return {
+    name: 'sealion_translate_batch',
+    description: `Translate up to ${MAX_BATCH_ITEMS} texts between Southeast Asian languages in one call, such as a UI string bundle. 
+    Takes an array of {id, text} items and returns a per-item result; a failed item does not affect the others. 
+    Supports: ${SupportedLanguages.join(', ')}.`,
+    inputSchema: TranslationBatchSchema,
+    handler: (args: TranslationBatchArgs, client: SeaLionClient, context?: ToolContext) => handleTranslationBatch(glossaries, prompts, args, client, context),
+    sanitization: {
+      'items.text': 'prompt'
+    }
+  };
+}
+
+/**
+ * Create the document translation tool definition
+ */
+export function createDocumentTranslationTool(glossaries: GlossaryStore, prompts: ToolPromptStore): ToolDefinition {
+  return {
+    name: 'sealion_translate_document',
+    description: `Translate a long document (up to ${MAX_DOCUMENT_CHARS} characters) between Southeast Asian languages. 
+    The text is split on paragraph and sentence boundaries, with script-aware segmentation for Thai, Lao, Khmer, Burmese and Chinese, 
+    translated chunk by chunk with the previous chunk as context, and rejoined in the original layout. Reports progress per chunk. 
+    Supports: ${SupportedLanguages.join(', ')}.`,
+    inputSchema: DocumentTranslationSchema,
+    handler: (args: DocumentTranslationArgs, client: SeaLionClient, context?: ToolContext) => handleDocumentTranslation(glossaries, prompts, args, client, context),
+    // One request per chunk
+    cost: (args: DocumentTranslationArgs) => chunkText(args.text, args.max_chunk_tokens).length,
+    sanitization: {
+      text: 'prompt'
+    }
+  };
+}
+
+/**
+ * Create the localization prompt definition
+ *
+ * Renders the translator instructions used by sealion_translate, asking for
+ * an adaptation to the target audience rather than a literal translation.
+ */
+export function createLocalizationPrompt(prompts: ToolPromptStore): PromptDefinition {
+  return {
+    name: 'localize',
+    description: 'Localize a text for Southeast Asian readers, for example a push notification for Indonesia',
+    argumentsSchema: LocalizationPromptSchema,
+    render: (args: LocalizationPromptArgs) => {
+      const kind = args.content_type ?? 'text';
+      const source = args.source_language ? ` from ${args.source_language}` : '';
+      const audience = args.target_country ? ` for readers in ${Countries[args.target_country].name}` : '';
+      const systemPrompt = buildTranslationSystemPrompt(prompts, {
+        source_language: args.source_language,
+        target_language: args.target_language,
+        preserve_cultural_context: true,
+        formal_register: false
+      });
+
+      return [{
+        role: 'user',
+        text: `${systemPrompt}
+
+Localize the following ${kind}${source} into ${args.target_language}${audience}. Adapt idioms, names, units, dates, currency and tone so it reads as if it was written for them, and keep it about as long as the original.
+
+"${args.text}"
+
+Provide only the localized ${kind} without additional explanations.`
+      }];
+    }
   };
 }
@@ -0,0 +1,141 @@
+/**
+ * Translation Memory Tools
+ *
+ * Tools for agents to search and curate the local translation memory used by
+ * sealion_translate, and to move it in and out as TMX. They run locally and
+ * never call the Sea-lion API. Each authenticated client sees only its own
+ * units.
+ */
+
+import { z } from 'zod';
+import { ToolDefinition, ToolContext, SupportedLanguages } from '../types/index.js';
+import { SeaLionClient } from '../services/sealionClient.js';
+import { TranslationMemory, getMemoryOwner } from '../services/translationMemory.js';
+import { logger } from '../utils/logger.js';
+
+// Largest TMX document accepted for import
+const MAX_TMX_CHARS = 5_000_000;
+
+const LanguageSchema = z.enum(SupportedLanguages, {
+  errorMap: () => ({ message: `Language must be one of: ${SupportedLanguages.join(', ')}` })
+});
+
+// Input schema for translation memory search tool
+const TmSearchSchema = z.object({
+  text: z.string().min(1, 'Text cannot be empty').max(5000, 'Text too long for translation memory search'),
+  source_language: LanguageSchema,
+  target_language: LanguageSchema,
+  min_score: z.number().int().min(1, 'Minimum score must be at least 1').max(100, 'Minimum score cannot exceed 100').optional()
+    .describe('Lowest match score in percent (default: the server fuzzy threshold)'),
+  limit: z.number().int().min(1, 'Limit must be at least 1').max(50, 'Limit cannot exceed 50').default(5)
+}).strict();
+
+// Input schema for translation memory add tool
+const TmAddSchema = z.object({
+  source_language: LanguageSchema,
+  target_language: LanguageSchema,
+  source: z.string().min(1, 'Source text cannot be empty').max(5000, 'Source text too long'),
+  target: z.string().min(1, 'Target text cannot be empty').max(10000, 'Target text too long')
+}).strict();
+
+// Input schema for TMX import tool
+const TmImportSchema = z.object({
+  tmx: z.string().min(1, 'TMX document cannot be empty').max(MAX_TMX_CHARS, 'TMX document too large')
+}).strict();
+
+// Input schema for TMX export tool
+const TmExportSchema = z.object({
+  source_language: LanguageSchema.optional(),
+  target_language: LanguageSchema.optional()
+}).strict();
+
+type TmSearchArgs = z.infer<typeof TmSearchSchema>;
+type TmAddArgs = z.infer<typeof TmAddSchema>;
+type TmImportArgs = z.infer<typeof TmImportSchema>;
+type TmExportArgs = z.infer<typeof TmExportSchema>;
+
+/**
+ * Create the translation memory search tool definition
+ */
+export function createTmSearchTool(memory: TranslationMemory): ToolDefinition {
+  return {
+    name: 'sealion_tm_search',
+    description: `Search the translation memory for stored translations of a text in one language pair.
+    Returns exact and fuzzy matches with a similarity score in percent, best first.`,
+    inputSchema: TmSearchSchema,
+    handler: async (args: TmSearchArgs, _client: SeaLionClient, context?: ToolContext) => {
+      const matches = await memory.search(getMemoryOwner(context?.client), args.source_language, args.target_language, args.text, {
+        minScore: args.min_score,
+        limit: args.limit
+      });
+      return JSON.stringify({ matches }, null, 2);
+    },
+    // Served from the local translation memory without calling the Sea-lion API
+    cost: () => 0,
+    sanitization: {
+      text: 'text'
+    }
+  };
+}
+
+/**
+ * Create the translation memory add tool definition
+ */
+export function createTmAddTool(memory: TranslationMemory): ToolDefinition {
+  return {
+    name: 'sealion_tm_add',
+    description: `Add an approved translation to the translation memory, replacing any stored translation of the same source text.
+    sealion_translate serves exact matches from the memory and offers close matches to the model as references.`,
+    inputSchema: TmAddSchema,
+    handler: async (args: TmAddArgs, _client: SeaLionClient, context?: ToolContext) => {
+      if (args.source_language === args.target_language) {
+        throw new Error('Source and target language must differ');
+      }
+      const result = await memory.add(getMemoryOwner(context?.client), args, 'curated');
+      logger.info('Translation memory unit added', { id: result.unit.id, replaced: result.replaced });
+      return JSON.stringify(result, null, 2);
+    },
+    // Rewrites the translation memory file
+    cost: () => 1,
+    sanitization: {
+      source: 'text',
+      target: 'text'
+    }
+  };
+}
+
+/**
+ * Create the TMX import tool definition
+ */
+export function createTmImportTool(memory: TranslationMemory): ToolDefinition {
+  return {
+    name: 'sealion_tm_import',
+    description: `Import a TMX document into the translation memory. Imported units count as approved translations;
+    variants in unsupported languages are skipped.`,
+    inputSchema: TmImportSchema,
+    handler: async (args: TmImportArgs, _client: SeaLionClient, context?: ToolContext) => {
+      const result = await memory.importTmx(getMemoryOwner(context?.client), args.tmx);
+      return JSON.stringify(result, null, 2);
+    },
+    // Parses a large TMX document and rewrites the translation memory file
+    cost: () => 2,
+    sanitization: {
+      tmx: 'text'
+    }
+  };
+}
+
+/**
+ * Create the TMX export tool definition
+ */
+export function createTmExportTool(memory: TranslationMemory): ToolDefinition {
+  return {
+    name: 'sealion_tm_export',
+    description: 'Export the translation memory as a TMX 1.4 document, optionally limited to one source or target language.',
+    inputSchema: TmExportSchema,
+    handler: (args: TmExportArgs, _client: SeaLionClient, context?: ToolContext) =>
+      memory.exportTmx(getMemoryOwner(context?.client), args),
+    // Served from the local translation memory without calling the Sea-lion API
+    cost: () => 0
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * HTTP Transport Host
+ *
+ * Serves MCP over the Streamable HTTP transport at /mcp, with the legacy
+ * HTTP+SSE transport at /sse and /messages for older clients. Every
+ * connection gets its own session and its own MCP Server instance. Sessions
+ * are closed once idle, and new ones are refused while the cap is reached.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+
+// Largest JSON-RPC request body accepted on /mcp
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Longest gap between idle session sweeps
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /**
+   * Close sessions that have received no request for this long
+   */
+  sessionIdleMs: number;
+  /**
+   * Most sessions open at once; new sessions are refused beyond it
+   */
+  maxSessions: number;
+}
+
+/**
+ * Thrown when a request body exceeds MAX_BODY_BYTES
+ */
+class RequestBodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body too large (limit ${MAX_BODY_BYTES} bytes)`);
+    this.name = 'RequestBodyTooLargeError';
+  }
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastActivity: number;
+}
+
+/**
+ * Start an HTTP listener that creates one MCP server per session
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<void> {
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    session.server.close().catch(error => {
+      logger.warn('Failed to close MCP session:', { sessionId, error: String(error) });
+    });
+    logger.info('MCP session closed', { sessionId, activeSessions: sessions.size });
+  };
+
+  const sweepIdleSessions = () => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActivity < cutoff) {
+        logger.info('Closing idle MCP session', { sessionId });
+        closeSession(sessionId);
+      }
+    }
+  };
+  setInterval(sweepIdleSessions, Math.min(options.sessionIdleMs, MAX_SWEEP_INTERVAL_MS)).unref();
+
+  /**
+   * Refuse a new session while the cap is reached, returning whether one may open
+   */
+  const admitSession = (res: ServerResponse): boolean => {
+    if (sessions.size < options.maxSessions) {
+      return true;
+    }
+    logger.warn('Refusing MCP session: too many open sessions', { activeSessions: sessions.size });
+    sendJsonRpcError(res, 503, 'Too many open sessions. Please try again later.');
+    return false;
+  };
+
+  /**
+   * Handle Streamable HTTP requests (POST, GET and DELETE on /mcp)
+   */
+  const handleStreamableRequest = async (req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse) => {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+    if (!admitSession(res)) {
+      return;
+    }
+
+    const server = createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActivity: Date.now() });
+        logger.info('MCP session initialized', { sessionId: id, transport: 'streamable-http', activeSessions: sessions.size });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  /**
+   * Open a legacy SSE stream (GET /sse)
+   */
+  const handleSseConnect = async (res: ServerResponse) => {
+    if (!admitSession(res)) {
+      return;
+    }
+
+    const server = createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    sessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+    res.on('close', () => closeSession(transport.sessionId));
+
+    await server.connect(transport);
+    logger.info('MCP session initialized', { sessionId: transport.sessionId, transport: 'sse', activeSessions: sessions.size });
+  };
+
+  /**
+   * Deliver a client message on a legacy SSE session (POST /messages)
+   */
+  const handleSseMessage = async (req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+    session.lastActivity = Date.now();
+    await session.transport.handlePostMessage(req, res);
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    // Expose the bearer token to MCP handlers as request auth info
+    const token = getBearerToken(req);
+    if (token) {
+      (req as IncomingMessage & { auth?: AuthInfo }).auth = { token, clientId: '', scopes: [] };
+    }
+
+    try {
+      if (url.pathname === '/mcp' && ['POST', 'GET', 'DELETE'].includes(req.method || '')) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else if (url.pathname === '/health' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error) {
+      logger.error('HTTP request handling failed:', { path: url.pathname, error: error instanceof Error ? error.message : String(error) });
+      if (!res.headersSent) {
+        if (error instanceof RequestBodyTooLargeError) {
+          sendJsonRpcError(res, 413, `Invalid Request: ${error.message}`, -32600);
+        } else if (error instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, `Parse error: ${error.message}`);
+        } else {
+          sendJsonRpcError(res, 500, 'Internal server error');
+        }
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  logger.info(`HTTP transport listening on http://${options.host}:${options.port}`, {
+    streamableHttp: '/mcp',
+    sse: '/sse'
+  });
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer` header
+ */
+function getBearerToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RequestBodyTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Send a JSON-RPC error response that is not tied to a request id
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = -32000): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: {
+      code,
+      message
+    },
+    id: null
+  }));
+}
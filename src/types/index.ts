@@ -5,13 +5,122 @@
 import { z } from 'zod';
 
 /**
- * Available Sea-lion models
+ * Built-in Sea-lion models; the model registry adds models listed by the
+ * endpoint or configured by the operator
  */
 export enum SeaLionModel {
   V3_9B_IT = 'aisingapore/Gemma-SEA-LION-v3-9B-IT',
   V3_5_8B_R = 'aisingapore/Llama-SEA-LION-v3.5-8B-R'
 }
 
+/**
+ * MCP error codes for Sea-lion API failures and server limits (JSON-RPC server error range)
+ */
+export enum SeaLionErrorCode {
+  UpstreamAuthFailed = -32010,
+  UpstreamRateLimited = -32011,
+  UpstreamUnavailable = -32012,
+  UpstreamTimeout = -32013,
+  EmptyResponse = -32014,
+  UpstreamRequestFailed = -32015,
+  RateLimited = -32016
+}
+
+/**
+ * Progress update reported by a tool while it is running
+ */
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Details about how a tool call was served, returned in the result's _meta
+ */
+export interface ToolResultMetadata {
+  cache?: 'hit' | 'miss' | 'bypass' | 'refresh';
+  prompt_injection?: PromptInjectionFinding[];
+  /**
+   * Version of each prompt template behind the call, keyed by template id
+   */
+  prompt_versions?: Record<string, string>;
+  /**
+   * Inference backends that served the call's model requests, in order of first use
+   */
+  backends?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * How a string argument is sanitized before it reaches a tool
+ *
+ * - `identifier`: ids and names; trimmed, control characters rejected
+ * - `text`: free text written by the caller; kept verbatim apart from
+ *   control characters, which are removed
+ * - `prompt`: untrusted content embedded in a prompt; sanitized like `text`
+ *   and checked for prompt injection
+ * - `preserve`: passed through unchanged
+ */
+export type FieldSanitization = 'identifier' | 'text' | 'prompt' | 'preserve';
+
+/**
+ * Field sanitization keyed by argument path, e.g. `text` or `items.text`
+ * (array indices are omitted). Unlisted string fields use `identifier`.
+ */
+export type SanitizationPolicy = Record<string, FieldSanitization>;
+
+/**
+ * Suspected prompt injection found in an argument
+ */
+export interface PromptInjectionFinding {
+  field: string;
+  /**
+   * `override` for instructions aimed at the model, `markup` for chat
+   * template or role tokens
+   */
+  kind: 'override' | 'markup';
+  match: string;
+}
+
+/**
+ * Additional content block returned after a tool's main text
+ */
+export interface ToolContentBlock {
+  kind: 'reasoning' | 'glossary' | 'quality';
+  text: string;
+}
+
+/**
+ * Per-call context passed to tool handlers
+ */
+export interface ToolContext {
+  /**
+   * Present only when the caller supplied a progress token
+   */
+  onProgress?: (update: ToolProgress) => Promise<void>;
+  /**
+   * Identifies the caller for per-client state such as chat conversations
+   */
+  owner?: string;
+  /**
+   * Name of the authenticated client; unset when client authentication is off
+   */
+  client?: string;
+  /**
+   * Filled in by the handler and returned with the tool result
+   */
+  metadata?: ToolResultMetadata;
+  /**
+   * Filled in by the handler with content blocks to return after the main text
+   */
+  extraContent?: ToolContentBlock[];
+  /**
+   * Set by the handler to the structured result matching the tool's outputSchema
+   */
+  structuredContent?: Record<string, unknown>;
+}
+
 /**
  * Tool definition interface
  */
@@ -19,7 +128,53 @@ export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: z.ZodSchema<any>;
-  handler: (args: any, client: any) => Promise<string>;
+  /**
+   * Shape of the structuredContent every successful call returns
+   */
+  outputSchema?: z.ZodSchema<any>;
+  handler: (args: any, client: any, context?: ToolContext) => Promise<string>;
+  /**
+   * Rate limit tokens a call consumes, given its validated arguments (default 1);
+   * a cost of 0 skips the global bucket but still counts against the session
+   * and client limits
+   */
+  cost?: (args: any) => number;
+  /**
+   * Sanitization of string arguments (every string field is an `identifier` when unset)
+   */
+  sanitization?: SanitizationPolicy;
+}
+
+/**
+ * Message in a rendered prompt
+ */
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/**
+ * Prompt template definition
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  /**
+   * Object schema of the prompt's string arguments; optional fields may be left out
+   */
+  argumentsSchema: z.ZodObject<any>;
+  render: (args: any) => PromptMessage[];
+}
+
+/**
+ * Read-only resource definition
+ */
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: () => Promise<string>;
 }
 
 /**
@@ -64,42 +219,131 @@ export interface ChatCompletionRequest {
 /**
  * Supported Southeast Asian languages
  */
-export type SupportedLanguage = 
-  | 'english'
-  | 'indonesian'
-  | 'thai'
-  | 'vietnamese'
-  | 'filipino'
-  | 'malay'
-  | 'burmese'
-  | 'khmer'
-  | 'lao'
-  | 'tamil'
-  | 'chinese';
+export const SupportedLanguages = [
+  'english', 'indonesian', 'thai', 'vietnamese', 'filipino', 
+  'malay', 'burmese', 'khmer', 'lao', 'tamil', 'chinese'
+] as const;
+
+export type SupportedLanguage = typeof SupportedLanguages[number];
+
+export interface LanguageInfo {
+  /**
+   * ISO 639-1 code, or ISO 639-2 where there is none
+   */
+  code: string;
+  name: string;
+  native_name: string;
+  /**
+   * ISO 15924 code of the script the language is written in
+   */
+  script: string;
+}
+
+/**
+ * Metadata for the supported languages
+ */
+export const Languages: Record<SupportedLanguage, LanguageInfo> = {
+  english: { code: 'en', name: 'English', native_name: 'English', script: 'Latn' },
+  indonesian: { code: 'id', name: 'Indonesian', native_name: 'Bahasa Indonesia', script: 'Latn' },
+  thai: { code: 'th', name: 'Thai', native_name: 'ภาษาไทย', script: 'Thai' },
+  vietnamese: { code: 'vi', name: 'Vietnamese', native_name: 'Tiếng Việt', script: 'Latn' },
+  filipino: { code: 'fil', name: 'Filipino', native_name: 'Filipino', script: 'Latn' },
+  malay: { code: 'ms', name: 'Malay', native_name: 'Bahasa Melayu', script: 'Latn' },
+  burmese: { code: 'my', name: 'Burmese', native_name: 'မြန်မာဘာသာ', script: 'Mymr' },
+  khmer: { code: 'km', name: 'Khmer', native_name: 'ភាសាខ្មែរ', script: 'Khmr' },
+  lao: { code: 'lo', name: 'Lao', native_name: 'ພາສາລາວ', script: 'Laoo' },
+  tamil: { code: 'ta', name: 'Tamil', native_name: 'தமிழ்', script: 'Taml' },
+  chinese: { code: 'zh', name: 'Chinese', native_name: '中文', script: 'Hans' }
+};
 
 /**
  * Cultural analysis types
  */
-export type CulturalAnalysisType = 
-  | 'cultural_context'
-  | 'social_norms'
-  | 'business_etiquette'
-  | 'language_usage'
-  | 'religious_sensitivity'
-  | 'generational_differences'
-  | 'regional_variations';
+export const CulturalAnalysisTypes = [
+  'cultural_context',
+  'social_norms',
+  'business_etiquette',
+  'language_usage',
+  'religious_sensitivity',
+  'generational_differences',
+  'regional_variations'
+] as const;
+
+export type CulturalAnalysisType = typeof CulturalAnalysisTypes[number];
+
+export interface AnalysisTypeInfo {
+  name: string;
+  description: string;
+}
+
+/**
+ * Metadata for the cultural analysis types
+ */
+export const AnalysisTypes: Record<CulturalAnalysisType, AnalysisTypeInfo> = {
+  cultural_context: {
+    name: 'Cultural context',
+    description: 'Cultural references in the content and what they mean in Southeast Asia'
+  },
+  social_norms: {
+    name: 'Social norms',
+    description: 'How the content fits social expectations and behaviour'
+  },
+  business_etiquette: {
+    name: 'Business etiquette',
+    description: 'Appropriateness of business communication, hierarchy and politeness'
+  },
+  language_usage: {
+    name: 'Language usage',
+    description: 'Word choice, formality and register'
+  },
+  religious_sensitivity: {
+    name: 'Religious sensitivity',
+    description: 'Religious references and practices the content may touch on'
+  },
+  generational_differences: {
+    name: 'Generational differences',
+    description: 'How audiences of different generations may read the content'
+  },
+  regional_variations: {
+    name: 'Regional variations',
+    description: 'Differences in reception between countries and regions'
+  }
+};
 
 /**
  * Southeast Asian countries
  */
-export type SeaCountry = 
-  | 'singapore'
-  | 'malaysia'
-  | 'indonesia'
-  | 'thailand'
-  | 'vietnam'
-  | 'philippines'
-  | 'myanmar'
-  | 'cambodia'
-  | 'laos'
-  | 'brunei';
+export const SeaCountries = [
+  'singapore', 'malaysia', 'indonesia', 'thailand', 'vietnam', 
+  'philippines', 'myanmar', 'cambodia', 'laos', 'brunei'
+] as const;
+
+export type SeaCountry = typeof SeaCountries[number];
+
+export interface CountryInfo {
+  name: string;
+  /**
+   * ISO 3166-1 alpha-2 code
+   */
+  code: string;
+  /**
+   * Supported languages that are official or widely used in the country
+   */
+  languages: SupportedLanguage[];
+}
+
+/**
+ * Metadata for the Southeast Asian countries
+ */
+export const Countries: Record<SeaCountry, CountryInfo> = {
+  singapore: { name: 'Singapore', code: 'SG', languages: ['english', 'malay', 'chinese', 'tamil'] },
+  malaysia: { name: 'Malaysia', code: 'MY', languages: ['malay', 'english', 'chinese', 'tamil'] },
+  indonesia: { name: 'Indonesia', code: 'ID', languages: ['indonesian'] },
+  thailand: { name: 'Thailand', code: 'TH', languages: ['thai'] },
+  vietnam: { name: 'Vietnam', code: 'VN', languages: ['vietnamese'] },
+  philippines: { name: 'Philippines', code: 'PH', languages: ['filipino', 'english'] },
+  myanmar: { name: 'Myanmar', code: 'MM', languages: ['burmese'] },
+  cambodia: { name: 'Cambodia', code: 'KH', languages: ['khmer'] },
+  laos: { name: 'Laos', code: 'LA', languages: ['lao'] },
+  brunei: { name: 'Brunei', code: 'BN', languages: ['malay', 'english'] }
+};
@@ -0,0 +1,54 @@
+/**
+ * Concurrency Utilities
+ *
+ * Helpers for running batches of API calls with a bounded number in flight
+ * and a minimum spacing between call starts.
+ */
+
+export interface ConcurrencyOptions {
+  /**
+   * Maximum number of tasks running at once
+   */
+  concurrency: number;
+  /**
+   * Minimum delay between the start of consecutive tasks (in milliseconds)
+   */
+  minIntervalMs?: number;
+}
+
+/**
+ * Map over items with bounded concurrency, preserving input order
+ *
+ * The mapper is expected to handle its own errors; a rejection aborts the
+ * remaining work and is rethrown.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  options: ConcurrencyOptions,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const minIntervalMs = options.minIntervalMs ?? 0;
+  let nextIndex = 0;
+  let nextStart = Date.now();
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+
+      // Pace task starts across all workers
+      const now = Date.now();
+      const startAt = Math.max(now, nextStart);
+      nextStart = startAt + minIntervalMs;
+      if (startAt > now) {
+        await new Promise(resolve => setTimeout(resolve, startAt - now));
+      }
+
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
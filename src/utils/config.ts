@@ -0,0 +1,230 @@
+/**
+ * Server Configuration
+ *
+ * Resolves runtime options from command-line flags and environment variables.
+ * Command-line flags take precedence over environment variables.
+ */
+
+export type TransportMode = 'stdio' | 'http';
+
+export type RateLimitMode = 'reject' | 'wait';
+
+/**
+ * What to do with suspected prompt injection in `prompt` fields
+ *
+ * - `off`: no checks
+ * - `flag`: report findings in the tool result's _meta
+ * - `neutralize`: report findings and escape chat template or role markup
+ * - `reject`: refuse the call
+ */
+export type PromptInjectionMode = 'off' | 'flag' | 'neutralize' | 'reject';
+
+export interface ServerConfig {
+  transport: TransportMode;
+  port: number;
+  host: string;
+  /**
+   * HTTP sessions that receive no request for this long are closed
+   */
+  sessionIdleMs: number;
+  /**
+   * Most HTTP sessions open at once
+   */
+  maxSessions: number;
+  /**
+   * Path to the client key file; authentication is disabled when unset
+   */
+  authKeysFile?: string;
+  /**
+   * Token presented by the stdio client, which has no per-request headers
+   */
+  clientToken?: string;
+  conversation: {
+    ttlMs: number;
+    maxConversations: number;
+    maxTotalConversations: number;
+    maxMessages: number;
+    historyTokenBudget: number;
+  };
+  rateLimit: {
+    maxRequests: number;
+    windowMs: number;
+    /**
+     * Per-session bucket size; per-session limits are disabled when unset
+     */
+    sessionMaxRequests?: number;
+    sessionWindowMs: number;
+    queueSize: number;
+    maxWaitMs: number;
+    mode: RateLimitMode;
+  };
+  promptInjection: PromptInjectionMode;
+  /**
+   * Directory holding translation glossary files
+   */
+  glossaryDir: string;
+  /**
+   * Directory holding user-defined MCP prompt templates
+   */
+  promptDir: string;
+  translationMemory: {
+    /**
+     * JSON file holding the translation memory
+     */
+    file: string;
+    /**
+     * Lowest fuzzy match score, in percent, offered as a reference
+     */
+    fuzzyThreshold: number;
+    /**
+     * Record sealion_translate outputs that pass the glossary and quality checks
+     */
+    autoRecord: boolean;
+  };
+  toolPrompts: {
+    /**
+     * JSON file or directory of JSON files replacing the built-in tool prompts
+     */
+    path?: string;
+    /**
+     * Return the prompt template versions in each tool result's metadata
+     */
+    returnVersions: boolean;
+  };
+  models: {
+    /**
+     * JSON file adding models or overriding their aliases and capabilities
+     */
+    file?: string;
+    /**
+     * Interval between refreshes of the endpoint's model listing; the
+     * listing is only read at startup when unset
+     */
+    refreshIntervalMs?: number;
+  };
+}
+
+/**
+ * Read the value of a `--name value` or `--name=value` flag
+ */
+export function getFlag(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith(prefix)) {
+      return arg.slice(prefix.length);
+    }
+    if (arg === `--${name}` && i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      return argv[i + 1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the server configuration from CLI arguments and environment
+ */
+export function getServerConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+  const transport = (getFlag(argv, 'transport') || env.MCP_TRANSPORT || 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unsupported transport: ${transport}. Use stdio or http.`);
+  }
+
+  const portValue = getFlag(argv, 'port') || env.MCP_PORT || '3000';
+  const port = parseInt(portValue, 10);
+  if (isNaN(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${portValue}`);
+  }
+
+  const rateLimitMode = (env.RATE_LIMIT_MODE || 'reject').toLowerCase();
+  if (rateLimitMode !== 'reject' && rateLimitMode !== 'wait') {
+    throw new Error(`Unsupported RATE_LIMIT_MODE: ${rateLimitMode}. Use reject or wait.`);
+  }
+
+  const promptInjection = (env.PROMPT_INJECTION_MODE || 'flag').toLowerCase();
+  if (!['off', 'flag', 'neutralize', 'reject'].includes(promptInjection)) {
+    throw new Error(`Unsupported PROMPT_INJECTION_MODE: ${promptInjection}. Use off, flag, neutralize or reject.`);
+  }
+
+  const windowMs = getPositiveInt(env, 'RATE_LIMIT_WINDOW_MS', 60000);
+
+  const fuzzyThreshold = getPositiveInt(env, 'TM_FUZZY_THRESHOLD', 75);
+  if (fuzzyThreshold > 100) {
+    throw new Error(`TM_FUZZY_THRESHOLD must be a percentage between 1 and 100, got: ${fuzzyThreshold}`);
+  }
+
+  const autoRecord = (env.TM_AUTO_RECORD || 'off').toLowerCase();
+  if (!['on', 'off', 'true', 'false', '1', '0'].includes(autoRecord)) {
+    throw new Error(`Unsupported TM_AUTO_RECORD: ${autoRecord}. Use on or off.`);
+  }
+
+  const promptVersions = (env.TOOL_PROMPT_VERSIONS || 'off').toLowerCase();
+  if (!['on', 'off', 'true', 'false', '1', '0'].includes(promptVersions)) {
+    throw new Error(`Unsupported TOOL_PROMPT_VERSIONS: ${promptVersions}. Use on or off.`);
+  }
+
+  return {
+    transport,
+    port,
+    host: getFlag(argv, 'host') || env.MCP_HOST || '127.0.0.1',
+    sessionIdleMs: getPositiveInt(env, 'MCP_SESSION_IDLE_MS', 30 * 60 * 1000),
+    maxSessions: getPositiveInt(env, 'MCP_MAX_SESSIONS', 100),
+    authKeysFile: getFlag(argv, 'auth-keys') || env.MCP_AUTH_KEYS_FILE || undefined,
+    clientToken: env.MCP_CLIENT_TOKEN || undefined,
+    conversation: {
+      ttlMs: getPositiveInt(env, 'CHAT_SESSION_TTL_MS', 30 * 60 * 1000),
+      maxConversations: getPositiveInt(env, 'CHAT_MAX_CONVERSATIONS', 100),
+      maxTotalConversations: getPositiveInt(env, 'CHAT_MAX_TOTAL_CONVERSATIONS', 1000),
+      maxMessages: getPositiveInt(env, 'CHAT_MAX_MESSAGES', 50),
+      historyTokenBudget: getPositiveInt(env, 'CHAT_HISTORY_TOKEN_BUDGET', 4000)
+    },
+    rateLimit: {
+      maxRequests: getPositiveInt(env, 'RATE_LIMIT_MAX_REQUESTS', 10),
+      windowMs,
+      sessionMaxRequests: env.RATE_LIMIT_SESSION_MAX_REQUESTS
+        ? getPositiveInt(env, 'RATE_LIMIT_SESSION_MAX_REQUESTS', 0)
+        : undefined,
+      sessionWindowMs: getPositiveInt(env, 'RATE_LIMIT_SESSION_WINDOW_MS', windowMs),
+      queueSize: getPositiveInt(env, 'RATE_LIMIT_QUEUE_SIZE', 20),
+      maxWaitMs: getPositiveInt(env, 'RATE_LIMIT_MAX_WAIT_MS', 30000),
+      mode: rateLimitMode
+    },
+    promptInjection: promptInjection as PromptInjectionMode,
+    glossaryDir: getFlag(argv, 'glossary-dir') || env.GLOSSARY_DIR || 'glossaries',
+    promptDir: getFlag(argv, 'prompt-dir') || env.PROMPT_DIR || 'prompts',
+    translationMemory: {
+      file: getFlag(argv, 'tm-file') || env.TM_FILE || 'translation-memory.json',
+      fuzzyThreshold,
+      autoRecord: ['on', 'true', '1'].includes(autoRecord)
+    },
+    toolPrompts: {
+      path: getFlag(argv, 'tool-prompts') || env.TOOL_PROMPTS || undefined,
+      returnVersions: ['on', 'true', '1'].includes(promptVersions)
+    },
+    models: {
+      file: getFlag(argv, 'models-file') || env.SEALION_MODELS_FILE || undefined,
+      refreshIntervalMs: env.SEALION_MODELS_REFRESH_MS
+        ? getPositiveInt(env, 'SEALION_MODELS_REFRESH_MS', 0)
+        : undefined
+    }
+  };
+}
+
+/**
+ * Read a positive integer from the environment, falling back to a default
+ */
+function getPositiveInt(env: NodeJS.ProcessEnv, name: string, defaultValue: number): number {
+  const value = env[name];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${name} must be a positive integer, got: ${value}`);
+  }
+  return parsed;
+}
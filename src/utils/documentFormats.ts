@@ -0,0 +1,460 @@
+/**
+ * Structured Document Formats
+ *
+ * Parses Markdown, HTML, SRT subtitles and i18n JSON into the text segments
+ * worth translating, and rebuilds the document around their translations.
+ * Markup, URLs and interpolation placeholders inside a segment are swapped
+ * for numbered tokens such as [[0]] so the model cannot alter them.
+ *
+ * Each parser also yields the document's skeleton (everything except the
+ * segments), which is compared before and after translation to check that
+ * the rebuilt document still has the original structure.
+ */
+
+export const DocumentFormats = ['text', 'markdown', 'html', 'srt', 'i18n_json'] as const;
+
+export type DocumentFormat = typeof DocumentFormats[number];
+
+/**
+ * A translatable piece of a document, with protected spans replaced by tokens
+ */
+export interface DocumentSegment {
+  text: string;
+  tokens: string[];
+}
+
+export interface ParsedDocument {
+  segments: DocumentSegment[];
+
+  /**
+   * Rebuild the document with one restored text per segment
+   */
+  rebuild(texts: string[]): string;
+}
+
+// Spans kept out of translation: inline code, Markdown link targets, HTML
+// code elements and tags, entities, URLs, interpolation placeholders such as
+// {name}, {{name}}, ${name}, %s and %(name)s, and text already shaped like a token
+const ProtectedPattern = new RegExp([
+  '`[^`\\n]+`',
+  '\\]\\([^)\\s]*(?:\\s+"[^"]*")?\\)',
+  '<code\\b[^>]*>[\\s\\S]*?<\\/code>',
+  '<\\/?[A-Za-z][^<>]*>',
+  '&(?:#\\d+|#x[\\da-fA-F]+|[A-Za-z]+);',
+  'https?:\\/\\/[^\\s<>()\\]]+',
+  '\\{\\{[^{}]*\\}\\}',
+  '\\$?\\{[^{}]*(?:\\{[^{}]*\\}[^{}]*)*\\}',
+  '%(?:\\d+\\$)?[sdifu@]',
+  '%\\([A-Za-z_]+\\)[sd]',
+  '\\[\\[\\d+\\]\\]'
+].join('|'), 'g');
+
+const TokenPattern = /\[\[(\d+)\]\]/g;
+
+// Stands in for every segment when comparing document skeletons
+const SEGMENT_MARKER = '\u0000';
+
+// HTML elements that stay inside a translatable run of text
+const InlineHtmlElements = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'dfn', 'em', 'font', 'i', 'img', 'kbd',
+  'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr'
+]);
+
+// HTML elements whose content is never translated
+const RawHtmlElements = new Set(['script', 'style', 'pre', 'textarea']);
+
+const HtmlTokenPattern = /<!--[\s\S]*?-->|<![^>]*>|<\/?([A-Za-z][\w:-]*)(?:\s[^<>]*)?\/?>|[^<]+|</g;
+
+const SrtTimingPattern = /^\d{1,2}:\d{2}:\d{2}[,.]\d{3}\s*-->\s*\d{1,2}:\d{2}:\d{2}[,.]\d{3}/;
+
+// Markdown block markers: blockquotes, then a heading, list item or task item
+const MarkdownPrefixPattern = /^(\s*(?:>\s?)*)((?:#{1,6}\s+|[-*+]\s+(?:\[[ xX]\]\s+)?|\d{1,9}[.)]\s+)?)/;
+
+const MarkdownFencePattern = /^\s*(`{3,}|~{3,})/;
+
+const MarkdownRulePattern = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+
+const MarkdownTableSeparatorPattern = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Parse a document into translatable segments
+ *
+ * Throws when the content is not valid in the given format.
+ */
+export function parseDocument(content: string, format: Exclude<DocumentFormat, 'text'>): ParsedDocument {
+  switch (format) {
+    case 'markdown':
+      return parseMarkdown(content);
+    case 'html':
+      return parseHtml(content);
+    case 'srt':
+      return parseSrt(content);
+    case 'i18n_json':
+      return parseI18nJson(content);
+  }
+}
+
+/**
+ * Check whether a segment has any text left to translate once its tokens are
+ * taken out
+ */
+export function isTranslatable(segment: DocumentSegment): boolean {
+  return /\p{L}/u.test(segment.text.replace(TokenPattern, ''));
+}
+
+/**
+ * Put the protected spans back into a segment's translation
+ *
+ * Returns the tokens the translation lost; in HTML, markup the model added
+ * itself is escaped so it cannot change the document structure.
+ */
+export function restoreSegment(
+  segment: DocumentSegment,
+  translation: string,
+  format: DocumentFormat
+): { text: string; missing: string[] } {
+  const text = format === 'html' ? escapeHtml(translation) : translation;
+  const missing = segment.tokens
+    .map((_, i) => `[[${i}]]`)
+    .filter(token => !text.includes(token));
+
+  return { text: getSegmentSource({ text, tokens: segment.tokens }), missing };
+}
+
+/**
+ * Get a segment's original text, for segments left untranslated
+ */
+export function getSegmentSource(segment: DocumentSegment): string {
+  return segment.text.replace(TokenPattern, (token, index) => segment.tokens[Number(index)] ?? token);
+}
+
+/**
+ * Check that a translated document still parses and keeps the original
+ * structure; returns the problems found
+ */
+export function validateDocument(original: string, translated: string, format: Exclude<DocumentFormat, 'text'>): string[] {
+  let before: ParsedDocument;
+  let after: ParsedDocument;
+  try {
+    before = parseDocument(original, format);
+    after = parseDocument(translated, format);
+  } catch (error) {
+    return [error instanceof Error ? error.message : 'Unknown error'];
+  }
+
+  const problems: string[] = [];
+  if (after.segments.length !== before.segments.length) {
+    problems.push(`expected ${before.segments.length} text segments but found ${after.segments.length}`);
+  }
+  if (getSkeleton(after) !== getSkeleton(before)) {
+    problems.push('document structure changed');
+  }
+  return problems;
+}
+
+function getSkeleton(document: ParsedDocument): string {
+  return document.rebuild(document.segments.map(() => SEGMENT_MARKER));
+}
+
+/**
+ * Replace protected spans with numbered tokens
+ */
+function protect(text: string): DocumentSegment {
+  const tokens: string[] = [];
+  const protectedText = text.replace(ProtectedPattern, match => {
+    tokens.push(match);
+    return `[[${tokens.length - 1}]]`;
+  });
+  return { text: protectedText, tokens };
+}
+
+/**
+ * Parse Markdown line by line
+ *
+ * Headings, list items, blockquotes and table cells each become a segment,
+ * and continuation lines are joined to the segment above them. Fenced code
+ * blocks, front matter, rules and table separators are kept as they are.
+ */
+function parseMarkdown(content: string): ParsedDocument {
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+
+  type Block =
+    | { kind: 'raw'; text: string }
+    | { kind: 'segment'; prefix: string; continuation: string; suffix: string; lines: string[]; heading: boolean }
+    | { kind: 'table'; cells: Array<{ before: string; text: string; after: string }> };
+  const blocks: Block[] = [];
+  let fence: string | undefined;
+  let frontMatter = lines[0] === '---';
+
+  for (const [index, line] of lines.entries()) {
+    if (frontMatter) {
+      blocks.push({ kind: 'raw', text: line });
+      frontMatter = index === 0 || line !== '---';
+      continue;
+    }
+
+    const fenceMatch = line.match(MarkdownFencePattern);
+    if (fence) {
+      blocks.push({ kind: 'raw', text: line });
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = undefined;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      blocks.push({ kind: 'raw', text: line });
+      continue;
+    }
+
+    if (line.trim() === '' || MarkdownRulePattern.test(line) || MarkdownTableSeparatorPattern.test(line)) {
+      blocks.push({ kind: 'raw', text: line });
+      continue;
+    }
+
+    if (line.trimStart().startsWith('|')) {
+      blocks.push({
+        kind: 'table',
+        cells: line.split(/(?<!\\)\|/).map(cell => {
+          const [, before, text, after] = cell.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+          return { before, text, after };
+        })
+      });
+      continue;
+    }
+
+    const [prefix, quote, marker] = line.match(MarkdownPrefixPattern) as RegExpMatchArray;
+    const [, body, suffix] = line.slice(prefix.length).match(/^([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+    const previous = blocks[blocks.length - 1];
+
+    if (!marker && previous?.kind === 'segment' && !previous.heading) {
+      if (previous.lines.length === 1) {
+        previous.continuation = prefix;
+      }
+      previous.lines.push(body);
+      previous.suffix = suffix;
+      continue;
+    }
+
+    blocks.push({
+      kind: 'segment',
+      prefix,
+      continuation: quote + ' '.repeat(marker.length),
+      suffix,
+      lines: [body],
+      heading: marker.startsWith('#')
+    });
+  }
+
+  const segments = blocks.flatMap(block => {
+    if (block.kind === 'segment') {
+      return [protect(block.lines.join('\n'))];
+    }
+    return block.kind === 'table' ? block.cells.map(cell => protect(cell.text)) : [];
+  });
+
+  return {
+    segments,
+    rebuild: texts => {
+      let next = 0;
+      return blocks.map(block => {
+        if (block.kind === 'raw') {
+          return block.text;
+        }
+        if (block.kind === 'table') {
+          return block.cells.map(cell => cell.before + singleLine(texts[next++]).replace(/(?<!\\)\|/g, '\\|') + cell.after).join('|');
+        }
+        const text = texts[next++];
+        const translatedLines = block.heading ? [singleLine(text)] : text.replace(/\n\s*\n/g, '\n').split('\n');
+        return translatedLines
+          .map((line, i) => (i === 0 ? block.prefix : block.continuation) + line.trim())
+          .join(newline) + block.suffix;
+      }).join(newline);
+    }
+  };
+}
+
+/**
+ * Parse HTML into runs of text and inline elements between block elements
+ *
+ * Comments, doctype and the content of script, style, pre and textarea
+ * elements are kept as they are.
+ */
+function parseHtml(content: string): ParsedDocument {
+  const parts: Array<string | { leading: string; trailing: string }> = [];
+  const segments: DocumentSegment[] = [];
+  let run = '';
+
+  const flush = () => {
+    const [, leading, body, trailing] = run.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+    if (body) {
+      parts.push({ leading, trailing });
+      segments.push(protect(body));
+    } else if (run) {
+      parts.push(run);
+    }
+    run = '';
+  };
+
+  HtmlTokenPattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = HtmlTokenPattern.exec(content)) !== null) {
+    const [token, tagName] = match;
+    const name = tagName?.toLowerCase();
+    const isClosing = token.startsWith('</');
+
+    if (!token.startsWith('<') || token === '<' || (name && InlineHtmlElements.has(name))) {
+      run += token;
+      continue;
+    }
+
+    flush();
+    if (name && !isClosing && RawHtmlElements.has(name) && !token.endsWith('/>')) {
+      const close = content.toLowerCase().indexOf(`</${name}`, HtmlTokenPattern.lastIndex);
+      const end = close === -1 ? content.length : close;
+      parts.push(token + content.slice(HtmlTokenPattern.lastIndex, end));
+      HtmlTokenPattern.lastIndex = end;
+      continue;
+    }
+    parts.push(token);
+  }
+  flush();
+
+  return {
+    segments,
+    rebuild: texts => {
+      let next = 0;
+      return parts.map(part => typeof part === 'string' ? part : part.leading + texts[next++] + part.trailing).join('');
+    }
+  };
+}
+
+/**
+ * Parse SRT subtitles into one segment per cue
+ */
+function parseSrt(content: string): ParsedDocument {
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').trim().split(/\n[ \t]*\n/);
+
+  const cues = blocks.map((block, i) => {
+    const lines = block.split('\n');
+    const timingIndex = lines[0].includes('-->') ? 0 : 1;
+    if (!SrtTimingPattern.test(lines[timingIndex]?.trim() ?? '')) {
+      throw new Error(`Invalid SRT cue ${i + 1}: missing timestamp line`);
+    }
+    return { header: lines.slice(0, timingIndex + 1), text: lines.slice(timingIndex + 1).join('\n') };
+  });
+
+  return {
+    segments: cues.map(cue => protect(cue.text)),
+    rebuild: texts => cues
+      .map((cue, i) => [...cue.header, texts[i].replace(/\n\s*\n/g, '\n').trim()].filter(line => line !== '').join(newline))
+      .join(newline + newline) + newline
+  };
+}
+
+/**
+ * Parse an i18n JSON file into one segment per string value
+ *
+ * Values under keys starting with @ (ARB metadata such as descriptions) are
+ * not translated. Translations are written in place of the original string
+ * literals, so the rest of the file, including its key order, indentation
+ * and line breaks, is kept as it is.
+ */
+function parseI18nJson(content: string): ParsedDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('i18n JSON must be an object of strings');
+  }
+
+  const values = findJsonStrings(content)
+    .filter(value => !value.path.some(key => typeof key === 'string' && key.startsWith('@')));
+
+  return {
+    segments: values.map(value => protect(JSON.parse(content.slice(value.start, value.end)))),
+    rebuild: texts => {
+      let output = '';
+      let offset = 0;
+      values.forEach((value, i) => {
+        output += content.slice(offset, value.start) + JSON.stringify(texts[i]);
+        offset = value.end;
+      });
+      return output + content.slice(offset);
+    }
+  };
+}
+
+/**
+ * Locate the string values of valid JSON text, with the key path to each
+ */
+function findJsonStrings(content: string): Array<{ start: number; end: number; path: Array<string | number> }> {
+  const strings: Array<{ start: number; end: number; path: Array<string | number> }> = [];
+  const stack: Array<{ path: Array<string | number>; array: boolean; key: string | number }> = [];
+  let expectKey = false;
+
+  const valuePath = (): Array<string | number> => {
+    const top = stack[stack.length - 1];
+    return top ? [...top.path, top.key] : [];
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    switch (content[i]) {
+      case '{':
+      case '[': {
+        const array = content[i] === '[';
+        stack.push({ path: valuePath(), array, key: array ? 0 : '' });
+        expectKey = !array;
+        break;
+      }
+      case '}':
+      case ']':
+        stack.pop();
+        break;
+      case ',': {
+        const top = stack[stack.length - 1];
+        if (top.array) {
+          top.key = (top.key as number) + 1;
+        } else {
+          expectKey = true;
+        }
+        break;
+      }
+      case '"': {
+        let end = i + 1;
+        while (content[end] !== '"') {
+          end += content[end] === '\\' ? 2 : 1;
+        }
+        end++;
+        if (expectKey) {
+          stack[stack.length - 1].key = JSON.parse(content.slice(i, end));
+          expectKey = false;
+        } else {
+          strings.push({ start: i, end, path: valuePath() });
+        }
+        i = end - 1;
+        break;
+      }
+    }
+  }
+  return strings;
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Escape markup characters the model wrote, leaving entities alone
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&(?!(?:#\d+|#x[\da-fA-F]+|[A-Za-z]+);)/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
@@ -0,0 +1,357 @@
+/**
+ * Zod to JSON Schema Conversion
+ *
+ * Converts the Zod schemas used for tool input validation into the JSON
+ * Schema advertised to MCP clients in tools/list. Descriptions, numeric and
+ * string bounds, and nested structures are carried over so clients see the
+ * same constraints the server enforces.
+ */
+
+import { z } from 'zod';
+
+export type JsonSchema = { [key: string]: any };
+
+/**
+ * Convert a Zod schema to JSON Schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+
+  // Descriptions can sit on wrappers such as .optional().describe(...)
+  if (schema.description && result.description === undefined) {
+    result.description = schema.description;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a single schema node, ignoring its own description
+ */
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return convertString(schema as z.ZodString);
+
+    case z.ZodFirstPartyTypeKind.ZodNumber:
+      return convertNumber(schema as z.ZodNumber);
+
+    case z.ZodFirstPartyTypeKind.ZodBigInt:
+      return { type: 'integer' };
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' };
+
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: 'null' };
+
+    case z.ZodFirstPartyTypeKind.ZodAny:
+    case z.ZodFirstPartyTypeKind.ZodUnknown:
+      return {};
+
+    case z.ZodFirstPartyTypeKind.ZodNever:
+      return { not: {} };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return convertLiteral((schema as z.ZodLiteral<any>).value);
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] };
+
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Numeric TypeScript enums map values back to their names; keep only the values
+      const enumObject = (schema as z.ZodNativeEnum<any>).enum;
+      const values = Object.keys(enumObject)
+        .filter(key => typeof enumObject[enumObject[key]] !== 'number')
+        .map(key => enumObject[key]);
+      const types = Array.from(new Set(values.map(value => typeof value === 'number' ? 'number' : 'string')));
+      return { type: types.length === 1 ? types[0] : types, enum: values };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return convertArray(schema as z.ZodArray<z.ZodTypeAny>);
+
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const tuple = schema as z.ZodTuple<any, any>;
+      const items = tuple.items.map((item: z.ZodTypeAny) => zodToJsonSchema(item));
+      return {
+        type: 'array',
+        items,
+        minItems: items.length,
+        ...(tuple._def.rest
+          ? { additionalItems: zodToJsonSchema(tuple._def.rest) }
+          : { maxItems: items.length })
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodSet: {
+      const set = schema as z.ZodSet<z.ZodTypeAny>;
+      return {
+        type: 'array',
+        uniqueItems: true,
+        items: zodToJsonSchema(set._def.valueType),
+        ...(set._def.minSize && { minItems: set._def.minSize.value }),
+        ...(set._def.maxSize && { maxItems: set._def.maxSize.value })
+      };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodObject:
+      return convertObject(schema as z.AnyZodObject);
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+    case z.ZodFirstPartyTypeKind.ZodMap:
+      return {
+        type: 'object',
+        additionalProperties: zodToJsonSchema(def.valueType)
+      };
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return convertUnion(Array.from(def.options as Iterable<z.ZodTypeAny>));
+
+    case z.ZodFirstPartyTypeKind.ZodIntersection:
+      return { allOf: [zodToJsonSchema(def.left), zodToJsonSchema(def.right)] };
+
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return makeNullable(zodToJsonSchema((schema as z.ZodNullable<z.ZodTypeAny>).unwrap()));
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema((schema as z.ZodOptional<z.ZodTypeAny>).unwrap());
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return {
+        ...zodToJsonSchema((schema as z.ZodDefault<z.ZodTypeAny>).removeDefault()),
+        default: def.defaultValue()
+      };
+
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return zodToJsonSchema(def.innerType);
+
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return { ...zodToJsonSchema(def.innerType), readOnly: true };
+
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      // Refinements and transforms can't be expressed; advertise the input shape
+      return zodToJsonSchema((schema as z.ZodEffects<z.ZodTypeAny>).innerType());
+
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return zodToJsonSchema(def.type);
+
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in);
+
+    case z.ZodFirstPartyTypeKind.ZodLazy:
+      return zodToJsonSchema(def.getter());
+
+    default:
+      return {};
+  }
+}
+
+/**
+ * Convert a string schema with its length, pattern and format checks
+ */
+function convertString(schema: z.ZodString): JsonSchema {
+  const result: JsonSchema = { type: 'string' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        result.minLength = Math.max(result.minLength ?? 0, check.value);
+        break;
+      case 'max':
+        result.maxLength = Math.min(result.maxLength ?? Infinity, check.value);
+        break;
+      case 'length':
+        result.minLength = check.value;
+        result.maxLength = check.value;
+        break;
+      case 'regex':
+        result.pattern = check.regex.source;
+        break;
+      case 'email':
+        result.format = 'email';
+        break;
+      case 'url':
+        result.format = 'uri';
+        break;
+      case 'uuid':
+        result.format = 'uuid';
+        break;
+      case 'datetime':
+        result.format = 'date-time';
+        break;
+      case 'date':
+        result.format = 'date';
+        break;
+      case 'time':
+        result.format = 'time';
+        break;
+      case 'ip':
+        result.format = check.version === 'v6' ? 'ipv6' : 'ipv4';
+        break;
+      case 'startsWith':
+        result.pattern = `^${escapeRegex(check.value)}`;
+        break;
+      case 'endsWith':
+        result.pattern = `${escapeRegex(check.value)}$`;
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a number schema, using integer type for .int()
+ */
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const result: JsonSchema = { type: 'number' };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        result.type = 'integer';
+        break;
+      case 'min':
+        if (check.inclusive) {
+          result.minimum = check.value;
+        } else {
+          result.exclusiveMinimum = check.value;
+        }
+        break;
+      case 'max':
+        if (check.inclusive) {
+          result.maximum = check.value;
+        } else {
+          result.exclusiveMaximum = check.value;
+        }
+        break;
+      case 'multipleOf':
+        result.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a literal value to a const schema
+ */
+function convertLiteral(value: unknown): JsonSchema {
+  if (value === null) {
+    return { type: 'null', const: null };
+  }
+  if (value === undefined) {
+    return {};
+  }
+
+  const type = typeof value === 'bigint' ? 'integer' : typeof value;
+  return { type, const: typeof value === 'bigint' ? Number(value) : value };
+}
+
+/**
+ * Convert an array schema with its length bounds
+ */
+function convertArray(schema: z.ZodArray<z.ZodTypeAny>): JsonSchema {
+  const def = schema._def;
+  return {
+    type: 'array',
+    items: zodToJsonSchema(def.type),
+    ...(def.exactLength && { minItems: def.exactLength.value, maxItems: def.exactLength.value }),
+    ...(def.minLength && { minItems: def.minLength.value }),
+    ...(def.maxLength && { maxItems: def.maxLength.value })
+  };
+}
+
+/**
+ * Convert an object schema; fields that accept undefined are not required
+ */
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: JsonSchema = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(schema.shape)) {
+    const fieldSchema = value as z.ZodTypeAny;
+    properties[key] = zodToJsonSchema(fieldSchema);
+
+    if (!fieldSchema.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const result: JsonSchema = {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required })
+  };
+
+  const catchall = schema._def.catchall as z.ZodTypeAny;
+  if (catchall._def.typeName !== z.ZodFirstPartyTypeKind.ZodNever) {
+    result.additionalProperties = zodToJsonSchema(catchall);
+  } else if (schema._def.unknownKeys === 'strict') {
+    result.additionalProperties = false;
+  }
+
+  return result;
+}
+
+/**
+ * Convert a union, collapsing unions of literals into an enum
+ */
+function convertUnion(options: z.ZodTypeAny[]): JsonSchema {
+  const nonNull = options.filter(option => option._def.typeName !== z.ZodFirstPartyTypeKind.ZodNull);
+  const hasNull = nonNull.length < options.length;
+
+  const literals = nonNull.every(option =>
+    option._def.typeName === z.ZodFirstPartyTypeKind.ZodLiteral &&
+    ['string', 'number', 'boolean'].includes(typeof option._def.value)
+  );
+
+  let result: JsonSchema;
+  if (literals && nonNull.length > 0) {
+    const values = nonNull.map(option => option._def.value);
+    const types = Array.from(new Set(values.map(value => typeof value)));
+    result = { type: types.length === 1 ? types[0] : types, enum: values };
+  } else if (nonNull.length === 1) {
+    result = zodToJsonSchema(nonNull[0]);
+  } else {
+    result = { anyOf: nonNull.map(option => zodToJsonSchema(option)) };
+  }
+
+  return hasNull ? makeNullable(result) : result;
+}
+
+/**
+ * Allow null in addition to the given schema
+ */
+function makeNullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string' && !schema.anyOf) {
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(schema.enum && { enum: [...schema.enum, null] })
+    };
+  }
+  if (Array.isArray(schema.type) && !schema.anyOf) {
+    return {
+      ...schema,
+      type: schema.type.includes('null') ? schema.type : [...schema.type, 'null'],
+      ...(schema.enum && { enum: [...schema.enum, null] })
+    };
+  }
+  if (schema.anyOf) {
+    return { ...schema, anyOf: [...schema.anyOf, { type: 'null' }] };
+  }
+  return { anyOf: [schema, { type: 'null' }] };
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -1,11 +1,24 @@
 /**
  * Simple logger utility for the sea-lionMCP server
- * 
+ *
  * Provides structured logging with different levels for debugging and monitoring.
+ * Output goes to stderr or a file, never stdout, which carries the JSON-RPC
+ * frames of the stdio transport. Entries are written as text lines or, with
+ * LOG_FORMAT=json, as JSON lines.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createWriteStream } from 'node:fs';
+
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+type LogFormat = 'text' | 'json';
+
+/**
+ * Fields bound to a logger or request and added to each of its entries
+ */
+export type LogContext = Record<string, unknown>;
+
 interface LogEntry {
   timestamp: string;
   level: LogLevel;
@@ -13,24 +26,69 @@ interface LogEntry {
   data?: any;
 }
 
+interface LogSink {
+  write(line: string): void;
+}
+
+const LogLevels: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Context of the request being handled, such as its correlation id
+const requestContext = new AsyncLocalStorage<LogContext>();
+
 class Logger {
   private logLevel: LogLevel;
+  private format: LogFormat;
+  private sink: LogSink;
+  private bindings: LogContext;
+
+  constructor(bindings: LogContext = {}, parent?: Logger) {
+    this.bindings = bindings;
+
+    if (parent) {
+      this.logLevel = parent.logLevel;
+      this.format = parent.format;
+      this.sink = parent.sink;
+      return;
+    }
 
-  constructor() {
     // Set log level from environment or default to 'info'
     const envLogLevel = process.env.LOG_LEVEL?.toLowerCase() as LogLevel;
-    this.logLevel = ['debug', 'info', 'warn', 'error'].includes(envLogLevel) 
-      ? envLogLevel 
+    this.logLevel = LogLevels.includes(envLogLevel)
+      ? envLogLevel
       : 'info';
+    this.format = process.env.LOG_FORMAT?.toLowerCase() === 'json' ? 'json' : 'text';
+    this.sink = createSink(process.env.LOG_FILE);
+  }
+
+  /**
+   * Create a logger that adds the given fields to every entry
+   */
+  child(bindings: LogContext): Logger {
+    return new Logger({ ...this.bindings, ...bindings }, this);
+  }
+
+  /**
+   * Run a function with fields added to every entry logged while it runs,
+   * including entries from other modules and asynchronous callbacks
+   */
+  runWithContext<T>(context: LogContext, fn: () => T): T {
+    return requestContext.run({ ...requestContext.getStore(), ...context }, fn);
+  }
+
+  /**
+   * Get the correlation id of the request being handled, if any
+   */
+  getCorrelationId(): string | undefined {
+    const id = requestContext.getStore()?.requestId;
+    return typeof id === 'string' ? id : undefined;
   }
 
   /**
    * Check if a log level should be output
    */
   private shouldLog(level: LogLevel): boolean {
-    const levels = ['debug', 'info', 'warn', 'error'];
-    const currentLevelIndex = levels.indexOf(this.logLevel);
-    const messageLevelIndex = levels.indexOf(level);
+    const currentLevelIndex = LogLevels.indexOf(this.logLevel);
+    const messageLevelIndex = LogLevels.indexOf(level);
     return messageLevelIndex >= currentLevelIndex;
   }
 
@@ -42,32 +100,36 @@ class Logger {
       return;
     }
 
+    const context = { ...requestContext.getStore(), ...this.bindings };
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level,
       message,
-      ...(data && { data })
+      ...(data !== undefined && { data: serialize(data) })
     };
 
-    const output = data 
-      ? `[${entry.timestamp}] ${level.toUpperCase()}: ${message} ${JSON.stringify(data)}`
-      : `[${entry.timestamp}] ${level.toUpperCase()}: ${message}`;
-
-    // Use appropriate console method
-    switch (level) {
-      case 'debug':
-        console.debug(output);
-        break;
-      case 'info':
-        console.info(output);
-        break;
-      case 'warn':
-        console.warn(output);
-        break;
-      case 'error':
-        console.error(output);
-        break;
+    if (this.format === 'json') {
+      this.sink.write(JSON.stringify({
+        timestamp: entry.timestamp,
+        level: entry.level,
+        message: entry.message,
+        ...context,
+        ...(entry.data !== undefined && { data: entry.data })
+      }));
+      return;
+    }
+
+    const fields = Object.entries(context).map(([key, value]) => `${key}=${value}`).join(' ');
+    let output = `[${entry.timestamp}] ${level.toUpperCase()}:`;
+    if (fields) {
+      output += ` [${fields}]`;
     }
+    output += ` ${message}`;
+    if (entry.data !== undefined) {
+      output += ` ${JSON.stringify(entry.data)}`;
+    }
+
+    this.sink.write(output);
   }
 
   /**
@@ -99,4 +161,35 @@ class Logger {
   }
 }
 
+/**
+ * Open the log destination: a file appended to, or stderr
+ */
+function createSink(file?: string): LogSink {
+  if (file) {
+    const stream = createWriteStream(file, { flags: 'a' });
+    stream.on('error', (error) => {
+      process.stderr.write(`Failed to write log file ${file}: ${error.message}\n`);
+    });
+    return { write: (line) => stream.write(`${line}\n`) };
+  }
+
+  return { write: (line) => process.stderr.write(`${line}\n`) };
+}
+
+/**
+ * Make log data JSON-safe; errors would otherwise serialize as {}
+ */
+function serialize(data: any): any {
+  if (data instanceof Error) {
+    return {
+      name: data.name,
+      message: data.message,
+      ...(data.cause !== undefined && { cause: serialize(data.cause) })
+    };
+  }
+  return data;
+}
+
+export type { Logger };
+
 export const logger = new Logger();
@@ -1,8 +1,8 @@
 /**
  * Rate Limiter Utility
  * 
- * Implements a simple sliding window rate limiter to prevent API abuse
- * and comply with Sea-lion API rate limits.
+ * Implements a simple sliding window rate limiter and a weighted token
+ * bucket to prevent API abuse and comply with Sea-lion API rate limits.
  */
 
 interface RequestRecord {
@@ -92,3 +92,102 @@ export class RateLimiter {
     this.requests = [];
   }
 }
+
+/**
+ * Token Bucket Rate Limiter
+ *
+ * Holds up to `capacity` tokens, refilled continuously so that a full bucket's
+ * worth is restored every `refillMs`. Requests consume a number of tokens
+ * equal to their cost, so expensive calls use up the budget faster.
+ */
+export class TokenBucket {
+  private capacity: number;
+  private refillMs: number;
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(capacity: number = 10, refillMs: number = 60000) {
+    this.capacity = capacity;
+    this.refillMs = refillMs;
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Consume tokens for a request if enough are available
+   */
+  allowRequest(cost: number = 1): boolean {
+    this.refill(Date.now());
+    const needed = this.clampCost(cost);
+
+    if (this.tokens >= needed) {
+      this.tokens -= needed;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Check if a request would be allowed without consuming tokens
+   */
+  wouldAllowRequest(cost: number = 1): boolean {
+    this.refill(Date.now());
+    return this.tokens >= this.clampCost(cost);
+  }
+
+  /**
+   * Get the whole number of tokens currently available
+   */
+  getRemainingRequests(): number {
+    this.refill(Date.now());
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Get time until enough tokens for a request of the given cost are available (in milliseconds)
+   */
+  getTimeUntilReset(cost: number = 1): number {
+    this.refill(Date.now());
+    const missing = this.clampCost(cost) - this.tokens;
+    if (missing <= 0) {
+      return 0;
+    }
+
+    return Math.ceil(missing * this.refillMs / this.capacity);
+  }
+
+  /**
+   * Check if the bucket is full, meaning it holds no state worth keeping
+   */
+  isFull(): boolean {
+    this.refill(Date.now());
+    return this.tokens >= this.capacity;
+  }
+
+  /**
+   * Reset the bucket to full
+   */
+  reset(): void {
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Add tokens earned since the last refill
+   */
+  private refill(currentTime: number): void {
+    const elapsed = currentTime - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.capacity / this.refillMs);
+      this.lastRefill = currentTime;
+    }
+  }
+
+  /**
+   * A request costing more than the capacity could never run; charge a full bucket instead
+   */
+  private clampCost(cost: number): number {
+    return Math.min(Math.max(cost, 0), this.capacity);
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Reasoning Trace Parsing
+ *
+ * Sea-lion reasoning models (v3.5 with thinking mode on) emit their reasoning
+ * in a <think>...</think> section ahead of the final answer. These helpers
+ * split the two so tools return only the answer by default.
+ */
+
+export interface ReasoningSplit {
+  answer: string;
+  reasoning?: string;
+}
+
+// Tag names reasoning models use for their trace
+const REASONING_TAGS = 'think|thinking|reasoning';
+
+const BLOCK_PATTERN = new RegExp(`<(${REASONING_TAGS})>([\\s\\S]*?)</\\1>`, 'gi');
+const OPEN_PATTERN = new RegExp(`<(${REASONING_TAGS})>`, 'i');
+const CLOSE_PATTERN = new RegExp(`</(${REASONING_TAGS})>`, 'gi');
+
+/**
+ * Split a completion into its reasoning trace and final answer
+ *
+ * Handles complete blocks, a trace whose opening tag was part of the chat
+ * template (only the closing tag appears), and a trace that was cut off
+ * before its closing tag.
+ */
+export function splitReasoning(raw: string): ReasoningSplit {
+  const parts: string[] = [];
+  let answer = raw;
+
+  // Closing tag with no opening tag: everything before it is reasoning
+  const firstClose = answer.search(CLOSE_PATTERN);
+  const firstOpen = answer.search(OPEN_PATTERN);
+  if (firstClose !== -1 && (firstOpen === -1 || firstClose < firstOpen)) {
+    const closeTag = answer.slice(firstClose).match(/^<\/[a-z]+>/i)![0];
+    parts.push(answer.slice(0, firstClose));
+    answer = answer.slice(firstClose + closeTag.length);
+  }
+
+  answer = answer.replace(BLOCK_PATTERN, (_match, _tag, inner: string) => {
+    parts.push(inner);
+    return '';
+  });
+
+  // Opening tag that was never closed: the rest is unfinished reasoning
+  const open = answer.match(OPEN_PATTERN);
+  if (open && open.index !== undefined) {
+    parts.push(answer.slice(open.index + open[0].length));
+    answer = answer.slice(0, open.index);
+  }
+
+  const reasoning = parts.map(part => part.trim()).filter(Boolean).join('\n\n');
+  return {
+    answer: answer.trim(),
+    ...(reasoning && { reasoning })
+  };
+}
+
+/**
+ * Wrap a separately delivered reasoning trace so it can travel with the answer
+ */
+export function joinReasoning(reasoning: string, answer: string): string {
+  return reasoning ? `<think>${reasoning}</think>${answer}` : answer;
+}
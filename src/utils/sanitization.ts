@@ -0,0 +1,172 @@
+/**
+ * Input Sanitization
+ *
+ * Applies each tool's field-level sanitization policy to its arguments and
+ * checks untrusted prompt content for injection attempts. Free text is kept
+ * verbatim: quotes, apostrophes and markup-like text are legitimate content
+ * for translation and analysis.
+ */
+
+import {
+  FieldSanitization,
+  PromptInjectionFinding,
+  SanitizationPolicy
+} from '../types/index.js';
+import { PromptInjectionMode } from './config.js';
+
+export interface SanitizeResult {
+  args: any;
+  findings: PromptInjectionFinding[];
+}
+
+/**
+ * Thrown when an argument is refused by its sanitization policy
+ */
+export class InputRejectedError extends Error {
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(`${field}: ${message}`);
+    this.name = 'InputRejectedError';
+    this.field = field;
+  }
+}
+
+// Control characters other than tab, line feed and carriage return
+const CONTROL_PATTERN = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g;
+
+// Chat template and role tokens that could end the user turn early
+const MarkupPatterns: RegExp[] = [
+  /<\|[^|<>\s]{1,40}\|>/g,
+  /<\/?(?:start_of_turn|end_of_turn|bos|eos)>/gi,
+  /\[\/?INST\]/g,
+  /<<\/?SYS>>/g,
+  /<\/?(?:think|thinking|reasoning)>/gi
+];
+
+// Phrases that try to override the server's instructions
+const OverridePatterns: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+|my\s+)?(?:previous|prior|above|earlier|preceding|system)\s+(?:instructions?|prompts?|rules|directions|messages?)\b/gi,
+  /\bnew\s+(?:system\s+)?instructions?\s*:/gi,
+  /\byou\s+are\s+now\s+(?:in\s+)?(?:an?\s+)?(?:unrestricted|jailbroken|developer\s+mode|DAN)\b/gi,
+  /\b(?:reveal|show|print|repeat|output)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|(?:initial|original|hidden)\s+instructions)\b/gi,
+  // Indonesian and Malay
+  /\babaikan\s+(?:semua\s+)?(?:instruksi|arahan|perintah)\s+(?:sebelumnya|di\s+atas)\b/gi,
+  // Filipino
+  /\bhuwag\s+(?:mo\s+)?(?:nang\s+)?pansinin\s+ang\s+(?:mga\s+)?(?:naunang|nakaraang)\s+(?:utos|tagubilin|instruksyon)\b/gi,
+  // Vietnamese
+  /\bbỏ\s+qua\s+(?:tất\s+cả\s+)?(?:các\s+)?(?:hướng\s+dẫn|chỉ\s+dẫn|lệnh)\s+(?:trước|ở\s+trên)/gi
+];
+
+/**
+ * Sanitize tool arguments according to the tool's policy
+ */
+export function sanitizeArgs(
+  args: any,
+  policy: SanitizationPolicy = {},
+  mode: PromptInjectionMode = 'flag'
+): SanitizeResult {
+  const findings: PromptInjectionFinding[] = [];
+
+  const visit = (value: any, path: string[]): any => {
+    if (typeof value === 'string') {
+      const field = path.join('.');
+      return sanitizeField(value, field, policy[field] || 'identifier', mode, findings);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => visit(item, path));
+    }
+
+    if (value && typeof value === 'object') {
+      const sanitized: any = {};
+      for (const [key, entry] of Object.entries(value)) {
+        sanitized[key] = visit(entry, [...path, key]);
+      }
+      return sanitized;
+    }
+
+    return value;
+  };
+
+  return { args: visit(args, []), findings };
+}
+
+/**
+ * Find suspected prompt injection in a text
+ */
+export function detectPromptInjection(text: string, field: string = 'text'): PromptInjectionFinding[] {
+  const normalized = text.normalize('NFC');
+  const findings: PromptInjectionFinding[] = [];
+
+  for (const pattern of MarkupPatterns) {
+    for (const match of normalized.matchAll(pattern)) {
+      findings.push({ field, kind: 'markup', match: match[0] });
+    }
+  }
+
+  for (const pattern of OverridePatterns) {
+    for (const match of normalized.matchAll(pattern)) {
+      findings.push({ field, kind: 'override', match: match[0] });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Escape chat template and role markup so the model reads it as plain text
+ */
+export function escapePromptMarkup(text: string): string {
+  return MarkupPatterns.reduce(
+    (result, pattern) => result.replace(pattern, token => token
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/\[/g, '&#91;')
+      .replace(/\]/g, '&#93;')),
+    text
+  );
+}
+
+/**
+ * Apply one field's policy
+ */
+function sanitizeField(
+  value: string,
+  field: string,
+  policy: FieldSanitization,
+  mode: PromptInjectionMode,
+  findings: PromptInjectionFinding[]
+): string {
+  switch (policy) {
+    case 'preserve':
+      return value;
+
+    case 'identifier':
+      if (value.search(CONTROL_PATTERN) !== -1) {
+        throw new InputRejectedError(field, 'control characters are not allowed');
+      }
+      return value.trim();
+
+    case 'text':
+      return value.replace(CONTROL_PATTERN, '');
+
+    case 'prompt': {
+      const text = value.replace(CONTROL_PATTERN, '');
+      if (mode === 'off') {
+        return text;
+      }
+
+      const found = detectPromptInjection(text, field);
+      if (found.length === 0) {
+        return text;
+      }
+      if (mode === 'reject') {
+        throw new InputRejectedError(field, 'possible prompt injection');
+      }
+
+      findings.push(...found);
+      return mode === 'neutralize' ? escapePromptMarkup(text) : text;
+    }
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Text Segmentation
+ *
+ * Splits long documents into translation-sized chunks on paragraph and
+ * sentence boundaries, and estimates token counts per script. Thai, Lao,
+ * Khmer, Burmese and Chinese are written without spaces between words, so
+ * their sentence ends are found from script-specific punctuation (or, for
+ * Thai and Lao, the spaces between phrases) and over-long sentences are cut
+ * at dictionary word boundaries rather than mid-word.
+ */
+
+import { SupportedLanguage } from '../types/index.js';
+
+/**
+ * A chunk of a document, with the whitespace around it kept separately so
+ * the original layout can be rebuilt around its translation
+ */
+export interface TextChunk {
+  leading: string;
+  text: string;
+  trailing: string;
+}
+
+// Approximate tokens per character for each script
+const ScriptTokenRates: Array<{ pattern: RegExp; tokensPerChar: number }> = [
+  { pattern: /\s/, tokensPerChar: 0.1 },
+  { pattern: /[\u0000-\u024F]/, tokensPerChar: 0.25 },
+  { pattern: /[\u1E00-\u1EFF]/, tokensPerChar: 0.5 },
+  { pattern: /[\u0E00-\u0EFF]/, tokensPerChar: 0.6 },
+  { pattern: /[\u0B80-\u0BFF]/, tokensPerChar: 0.6 },
+  { pattern: /[\u1780-\u17FF\u19E0-\u19FF]/, tokensPerChar: 0.8 },
+  { pattern: /[\u1000-\u109F\uA9E0-\uA9FF\uAA60-\uAA7F]/, tokensPerChar: 0.8 },
+  { pattern: /[\u3000-\u303F\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]/, tokensPerChar: 0.8 }
+];
+
+// Tokens other scripts use per character
+const DEFAULT_TOKENS_PER_CHAR = 0.5;
+
+// Tokens a language needs for the same content as one English token
+const LanguageTokenFactors: Record<SupportedLanguage, number> = {
+  english: 1,
+  indonesian: 1.3,
+  malay: 1.3,
+  filipino: 1.5,
+  vietnamese: 1.6,
+  thai: 2.5,
+  lao: 3,
+  khmer: 4,
+  burmese: 5,
+  tamil: 3.5,
+  chinese: 1.2
+};
+
+// Sentence ends: Latin punctuation followed by whitespace; Chinese, Khmer and
+// Burmese full stops; spaces between Thai or Lao phrases; line breaks
+const SentenceBoundaryPattern = /[.!?]+["'\u201D\u2019)\]]*\s+|[\u3002\uFF01\uFF1F\u17D4\u17D5\u104B]+\s*|(?<=[\u0E00-\u0EFF])[ \u00A0]+(?=[\u0E00-\u0EFF])|\n\s*/g;
+
+const ParagraphEndPattern = /\n\s*\n\s*$/;
+
+const wordSegmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+
+/**
+ * Estimate the number of tokens in a text from the scripts it uses
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const char of text) {
+    const rate = ScriptTokenRates.find(entry => entry.pattern.test(char));
+    tokens += rate ? rate.tokensPerChar : DEFAULT_TOKENS_PER_CHAR;
+  }
+  return Math.ceil(tokens);
+}
+
+/**
+ * Estimate the tokens a translation of a text will take
+ */
+export function estimateTranslationTokens(
+  text: string,
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage
+): number {
+  return Math.ceil(estimateTokens(text) * LanguageTokenFactors[targetLanguage] / LanguageTokenFactors[sourceLanguage]);
+}
+
+/**
+ * Split a text into sentences, each keeping the whitespace that follows it,
+ * so that joining them gives back the original text
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SentenceBoundaryPattern)) {
+    const end = (match.index ?? 0) + match[0].length;
+    if (end > start) {
+      sentences.push(text.slice(start, end));
+      start = end;
+    }
+  }
+
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+  return sentences;
+}
+
+/**
+ * Split a text into chunks of at most maxTokens estimated tokens
+ *
+ * Chunks end on sentence boundaries, and on paragraph boundaries once they
+ * are at least half full. A sentence longer than maxTokens is cut at word
+ * boundaries.
+ */
+export function chunkText(text: string, maxTokens: number): TextChunk[] {
+  const units = splitSentences(text).flatMap(sentence =>
+    estimateTokens(sentence) > maxTokens ? splitByWords(sentence, maxTokens) : [sentence]
+  );
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  for (const unit of units) {
+    const tokens = estimateTokens(unit);
+    if (current && currentTokens + tokens > maxTokens) {
+      chunks.push(current);
+      current = '';
+      currentTokens = 0;
+    }
+
+    current += unit;
+    currentTokens += tokens;
+
+    if (currentTokens >= maxTokens / 2 && ParagraphEndPattern.test(current)) {
+      chunks.push(current);
+      current = '';
+      currentTokens = 0;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks.map(chunk => {
+    const [, leading, body, trailing] = chunk.match(/^(\s*)([\s\S]*?)(\s*)$/) as RegExpMatchArray;
+    return { leading, text: body, trailing };
+  });
+}
+
+/**
+ * Take whole sentences from the end of a text, up to maxTokens estimated tokens
+ *
+ * Falls back to the final words when even the last sentence is too long.
+ */
+export function takeLastTokens(text: string, maxTokens: number): string {
+  const sentences = splitSentences(text);
+  let result = '';
+  let tokens = 0;
+
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const sentenceTokens = estimateTokens(sentences[i]);
+    if (tokens + sentenceTokens > maxTokens) {
+      if (!result) {
+        const pieces = splitByWords(sentences[i], maxTokens);
+        result = pieces[pieces.length - 1] ?? '';
+      }
+      break;
+    }
+    result = sentences[i] + result;
+    tokens += sentenceTokens;
+  }
+
+  return result.trim();
+}
+
+/**
+ * Cut an over-long sentence into pieces at word boundaries
+ */
+function splitByWords(sentence: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  let currentTokens = 0;
+
+  for (const { segment } of wordSegmenter.segment(sentence)) {
+    const tokens = estimateTokens(segment);
+    if (current && currentTokens + tokens > maxTokens) {
+      pieces.push(current);
+      current = '';
+      currentTokens = 0;
+    }
+    current += segment;
+    currentTokens += tokens;
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
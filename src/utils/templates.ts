@@ -0,0 +1,70 @@
+/**
+ * Text Templates
+ *
+ * Minimal mustache-style templates for prompts:
+ *
+ * - `{{name}}` inserts a variable; a missing variable inserts nothing
+ * - `{{#name}}...{{/name}}` keeps its content only when the variable is set
+ * - `{{^name}}...{{/name}}` keeps its content only when it is not
+ *
+ * A variable is set when it is true or a non-empty string. Inserted values
+ * are not scanned for tags, so user text cannot inject template syntax.
+ */
+
+export type TemplateVariables = Record<string, string | boolean | undefined>;
+
+// {{#name}}...{{/name}} and {{^name}}...{{/name}} sections
+const SECTION_PATTERN = /\{\{([#^])\s*([A-Za-z0-9_]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+
+// {{name}} variables
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+// Any tag, capturing the variable name
+const TAG_PATTERN = /\{\{\s*[#^/]?\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+// Section tags left over once every matched section is removed
+const SECTION_TAG_PATTERN = /\{\{\s*[#^/]/;
+
+/**
+ * Render a template with the given variables
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  const text = resolveSections(template, name => isSet(variables[name]));
+  return text.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    const value = variables[name];
+    return value === undefined ? '' : String(value);
+  });
+}
+
+/**
+ * Find undeclared variables and unbalanced sections in a template
+ */
+export function findTemplateProblems(template: string, variables: Iterable<string>): string[] {
+  const declared = new Set(variables);
+  const problems = Array.from(new Set(Array.from(template.matchAll(TAG_PATTERN), match => match[1])))
+    .filter(name => !declared.has(name))
+    .map(name => `Unknown variable: ${name}`);
+
+  if (SECTION_TAG_PATTERN.test(resolveSections(template, () => true))) {
+    problems.push('Unbalanced section tags');
+  }
+  return problems;
+}
+
+/**
+ * Keep or drop each section, innermost sections included
+ */
+function resolveSections(template: string, isTrue: (name: string) => boolean): string {
+  let text = template;
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(SECTION_PATTERN, (_match, kind: string, name: string, content: string) =>
+      isTrue(name) === (kind === '#') ? content : '');
+  } while (text !== previous);
+  return text;
+}
+
+function isSet(value: string | boolean | undefined): boolean {
+  return value === true || (typeof value === 'string' && value.length > 0);
+}
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { ConversationStore } from '../src/services/conversationStore.js';
+
+describe('ConversationStore', () => {
+  it('evicts the least recently used conversation per owner', async () => {
+    const store = new ConversationStore({ maxConversations: 2 });
+    store.getOrCreate('a', 'one');
+    await sleep(2);
+    store.getOrCreate('a', 'two');
+    store.getOrCreate('b', 'one');
+    await sleep(2);
+    store.getOrCreate('a', 'three');
+
+    assert.deepEqual(store.list('a').map(summary => summary.conversation_id).sort(), ['three', 'two']);
+    assert.equal(store.list('b').length, 1);
+  });
+
+  it('evicts the least recently used conversation of any owner past the total limit', async () => {
+    const store = new ConversationStore({ maxConversations: 10, maxTotalConversations: 2 });
+    const first = store.getOrCreate('session:1', 'chat');
+    await sleep(2);
+    store.getOrCreate('session:2', 'chat');
+    await sleep(2);
+    store.append(first, { role: 'user', content: 'still here' });
+    store.getOrCreate('session:3', 'chat');
+
+    assert.ok(store.get('session:1', 'chat'));
+    assert.equal(store.get('session:2', 'chat'), undefined);
+    assert.ok(store.get('session:3', 'chat'));
+  });
+
+  it('runs turns on the same conversation one at a time', async () => {
+    const store = new ConversationStore();
+    const events: string[] = [];
+    const turn = (name: string, ms: number) => async () => {
+      events.push(`${name} start`);
+      await sleep(ms);
+      events.push(`${name} end`);
+      if (name === 'first') {
+        throw new Error('model failed');
+      }
+      return name;
+    };
+
+    const results = await Promise.allSettled([
+      store.runExclusive('a', 'chat', turn('first', 30)),
+      store.runExclusive('a', 'chat', turn('second', 1)),
+      store.runExclusive('b', 'chat', turn('other', 1))
+    ]);
+
+    assert.equal(results[0].status, 'rejected');
+    assert.deepEqual(results.slice(1).map(result => result.status === 'fulfilled' && result.value), ['second', 'other']);
+    assert.deepEqual(events, ['first start', 'other start', 'other end', 'first end', 'second start', 'second end']);
+  });
+});
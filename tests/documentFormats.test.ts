@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DocumentFormat,
+  getSegmentSource,
+  isTranslatable,
+  parseDocument,
+  restoreSegment,
+  validateDocument
+} from '../src/utils/documentFormats.js';
+
+type StructuredFormat = Exclude<DocumentFormat, 'text'>;
+
+/**
+ * Rebuild a document with each segment passed through a fake translation
+ */
+function translate(content: string, format: StructuredFormat, change: (text: string) => string): string {
+  const document = parseDocument(content, format);
+  return document.rebuild(document.segments.map(segment =>
+    isTranslatable(segment) ? restoreSegment(segment, change(segment.text), format).text : getSegmentSource(segment)));
+}
+
+const Samples: Record<StructuredFormat, string> = {
+  markdown: [
+    '---',
+    'title: Guide',
+    '---',
+    '# Welcome to `sealion`',
+    '',
+    'Read the [docs](https://example.com/docs "Docs") before you start,',
+    'then continue below.',
+    '',
+    '- [ ] First item',
+    '> Quoted text',
+    '',
+    '| Name | Value |',
+    '| --- | :-: |',
+    '| Hello {name} | 42 |',
+    '',
+    '```js',
+    'const greeting = "do not translate";',
+    '```',
+    '',
+    '***',
+    ''
+  ].join('\n'),
+  html: '<!DOCTYPE html>\n<html><head><title>Hi &amp; bye</title><style>p { color: red; }</style></head>\n' +
+    '<body><p>Hello <b>world</b>, see <a href="https://example.com">this</a>.</p>\n' +
+    '<pre>keep   this</pre><p><code>x = 1</code> is code</p></body></html>\n',
+  srt: '1\n00:00:01,000 --> 00:00:02,500\nHello there.\nSecond line.\n\n2\n00:00:03,000 --> 00:00:04,000\n<i>Goodbye</i>\n',
+  i18n_json: '{\n  "greeting": "Hello {name}",\n  "nested": {"count": "You have %d messages", "@count": {"description": "skip"}},\n' +
+    '  "list": ["One", "Two \\"quoted\\""],\n  "@@locale": "en",\n  "number": 1\n}\n'
+};
+
+describe('parseDocument', () => {
+  for (const [format, content] of Object.entries(Samples) as Array<[StructuredFormat, string]>) {
+    it(`rebuilds ${format} unchanged from its own segments`, () => {
+      const document = parseDocument(content, format);
+      assert.ok(document.segments.length > 0);
+      assert.equal(document.rebuild(document.segments.map(getSegmentSource)), content);
+    });
+
+    it(`keeps the ${format} structure when segments are translated`, () => {
+      const translated = translate(content, format, text => text.toUpperCase().replace(/\[\[(\d+)\]\]/g, '[[$1]]'));
+      assert.notEqual(translated, content);
+      assert.deepEqual(validateDocument(content, translated, format), []);
+    });
+  }
+
+  it('rejects invalid documents', () => {
+    assert.throws(() => parseDocument('{"a": ', 'i18n_json'), /Invalid JSON/);
+    assert.throws(() => parseDocument('["a"]', 'i18n_json'), /object of strings/);
+    assert.throws(() => parseDocument('1\nHello\n', 'srt'), /missing timestamp/);
+  });
+});
+
+describe('protected spans', () => {
+  it('replaces markup, URLs and placeholders with tokens', () => {
+    const [segment] = parseDocument('{"a": "Hi {name}, %s and {{count}} at https://example.com/x"}', 'i18n_json').segments;
+    assert.equal(segment.text, 'Hi [[0]], [[1]] and [[2]] at [[3]]');
+    assert.deepEqual(segment.tokens, ['{name}', '%s', '{{count}}', 'https://example.com/x']);
+  });
+
+  it('reports tokens the translation lost', () => {
+    const [segment] = parseDocument('{"a": "Hi {name} and {other}"}', 'i18n_json').segments;
+    const restored = restoreSegment(segment, 'Halo [[1]]', 'i18n_json');
+    assert.equal(restored.text, 'Halo {other}');
+    assert.deepEqual(restored.missing, ['[[0]]']);
+  });
+
+  it('escapes markup a model adds to HTML', () => {
+    const [segment] = parseDocument('<p>Hello <b>world</b></p>', 'html').segments;
+    const restored = restoreSegment(segment, '<script>x</script> [[0]]dunia[[1]] &amp;', 'html');
+    assert.equal(restored.text, '&lt;script&gt;x&lt;/script&gt; <b>dunia</b> &amp;');
+  });
+
+  it('does not translate segments made only of tokens', () => {
+    const document = parseDocument('{"url": "https://example.com", "text": "Open"}', 'i18n_json');
+    assert.deepEqual(document.segments.map(isTranslatable), [false, true]);
+  });
+});
+
+describe('i18n JSON', () => {
+  it('keeps formatting, key order and metadata values', () => {
+    const translated = translate(Samples.i18n_json, 'i18n_json', text => `T:${text}`);
+    assert.equal(translated, '{\n  "greeting": "T:Hello {name}",\n' +
+      '  "nested": {"count": "T:You have %d messages", "@count": {"description": "skip"}},\n' +
+      '  "list": ["T:One", "T:Two \\"quoted\\""],\n  "@@locale": "en",\n  "number": 1\n}\n');
+  });
+
+  it('keeps compact JSON compact and integer-like keys in place', () => {
+    const translated = translate('{"b":"x","2":"y","1":"z"}', 'i18n_json', text => text + '!');
+    assert.equal(translated, '{"b":"x!","2":"y!","1":"z!"}');
+  });
+
+  it('escapes characters the translation adds', () => {
+    const translated = translate('{"a": "x"}', 'i18n_json', () => 'line "one"\nline two');
+    assert.deepEqual(JSON.parse(translated), { a: 'line "one"\nline two' });
+  });
+});
+
+describe('validateDocument', () => {
+  it('reports a changed structure or segment count', () => {
+    assert.deepEqual(validateDocument('{"a": "x", "b": "y"}', '{"a": "x"}', 'i18n_json'),
+      ['expected 2 text segments but found 1', 'document structure changed']);
+    assert.deepEqual(validateDocument('# Title\n', '## Title\n', 'markdown'), ['document structure changed']);
+  });
+
+  it('reports a translation that no longer parses', () => {
+    assert.equal(validateDocument('{"a": "x"}', '{"a": x}', 'i18n_json').length, 1);
+  });
+});
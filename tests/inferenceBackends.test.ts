@@ -0,0 +1,180 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import OpenAI from 'openai';
+import { BackendPool, recordBackends } from '../src/services/inferenceBackends.js';
+import { SeaLionAuthError, SeaLionError, SeaLionUpstreamError } from '../src/services/sealionErrors.js';
+import { ToolResultMetadata } from '../src/types/index.js';
+
+type Outcome = 'ok' | Error | (() => Promise<string>);
+
+/**
+ * Create a pool of backends a, b and c whose answers are set per backend name
+ */
+function createPool(outcomes: Record<string, Outcome>, cooldownMs = 50) {
+  const pool = new BackendPool(
+    Object.keys(outcomes).map((name, i) => ({ name, base_url: `http://${name}.test/v1`, priority: i })),
+    { failure_threshold: 2, cooldown_ms: cooldownMs },
+    {}
+  );
+  const calls: string[] = [];
+  const request = async (client: OpenAI, model: string) => {
+    const name = new URL(client.baseURL).hostname.replace('.test', '');
+    calls.push(name);
+    const outcome = outcomes[name];
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return outcome === 'ok' ? `${name}:${model}` : outcome();
+  };
+  return { pool, calls, request, outcomes };
+}
+
+const circuits = (pool: BackendPool) => pool.status().map(backend => backend.circuit);
+
+describe('BackendPool.run', () => {
+  it('uses the first backend that succeeds', async () => {
+    const { pool, calls, request } = createPool({ a: 'ok', b: 'ok' });
+    assert.deepEqual(await pool.run('m', request), { result: 'a:m', backend: 'a' });
+    assert.deepEqual(calls, ['a']);
+  });
+
+  it('fails over on retryable errors and rejected credentials', async () => {
+    const { pool, calls, request } = createPool({ a: new SeaLionUpstreamError(503), b: new SeaLionAuthError(401), c: 'ok' });
+    assert.equal((await pool.run('m', request)).backend, 'c');
+    assert.deepEqual(calls, ['a', 'b', 'c']);
+  });
+
+  it('throws the last error when every backend fails', async () => {
+    const last = new SeaLionUpstreamError(502);
+    const { pool, request } = createPool({ a: new SeaLionUpstreamError(503), b: last });
+    await assert.rejects(pool.run('m', request), error => error === last);
+  });
+
+  it('throws errors that would fail on every backend right away', async () => {
+    const invalid = new SeaLionError('Invalid request');
+    const { pool, calls, request } = createPool({ a: invalid, b: 'ok' });
+    await assert.rejects(pool.run('m', request), error => error === invalid);
+    assert.deepEqual(calls, ['a']);
+  });
+
+  it('fails over when a backend rejects the request without counting it against the backend', async () => {
+    const notFound = new SeaLionError('Model not found', { status: 404 });
+    const { pool, calls, request, outcomes } = createPool({ a: notFound, b: new SeaLionError('Unprocessable', { status: 422 }), c: 'ok' });
+    assert.equal((await pool.run('m', request)).backend, 'c');
+    assert.equal((await pool.run('m', request)).backend, 'c');
+    assert.deepEqual(calls, ['a', 'b', 'c', 'a', 'b', 'c']);
+    assert.deepEqual(circuits(pool), ['closed', 'closed', 'closed']);
+
+    outcomes.c = new SeaLionError('Bad request', { status: 400 });
+    await assert.rejects(pool.run('m', request), { status: 400 });
+  });
+
+  it('does not switch backends once part of an answer was delivered', async () => {
+    const { pool, calls, request } = createPool({ a: new SeaLionUpstreamError(503), b: 'ok' });
+    await assert.rejects(pool.run('m', request, { committed: true }), SeaLionUpstreamError);
+    assert.deepEqual(calls, ['a']);
+  });
+
+  it('only sends a model to the backends that serve it, under their own name', async () => {
+    const pool = new BackendPool([
+      { name: 'a', base_url: 'http://a.test/v1', priority: 0, models: { other: 'other' } },
+      { name: 'b', base_url: 'http://b.test/v1', priority: 1, models: { m: 'local-m' } }
+    ], { failure_threshold: 2, cooldown_ms: 50 }, {});
+    assert.deepEqual(await pool.run('m', async (_client, model) => model), { result: 'local-m', backend: 'b' });
+    await assert.rejects(pool.run('unknown', async () => 'x'), /No inference backend serves model unknown/);
+  });
+});
+
+describe('circuit breaker', () => {
+  it('opens after consecutive failures and skips the backend during the cooldown', async () => {
+    const { pool, calls, request } = createPool({ a: new SeaLionUpstreamError(503), b: 'ok' });
+    await pool.run('m', request);
+    assert.deepEqual(circuits(pool), ['closed', 'closed']);
+    await pool.run('m', request);
+    assert.deepEqual(circuits(pool), ['open', 'closed']);
+
+    calls.length = 0;
+    assert.equal((await pool.run('m', request)).backend, 'b');
+    assert.deepEqual(calls, ['b']);
+  });
+
+  it('closes again when the test request after the cooldown succeeds', async () => {
+    const { pool, calls, request, outcomes } = createPool({ a: new SeaLionUpstreamError(503), b: 'ok' });
+    await pool.run('m', request);
+    await pool.run('m', request);
+    await sleep(60);
+    assert.deepEqual(circuits(pool), ['half_open', 'closed']);
+
+    outcomes.a = 'ok';
+    calls.length = 0;
+    assert.equal((await pool.run('m', request)).backend, 'a');
+    assert.deepEqual(calls, ['a']);
+    assert.deepEqual(circuits(pool), ['closed', 'closed']);
+  });
+
+  it('opens again when the test request fails', async () => {
+    const { pool, request } = createPool({ a: new SeaLionUpstreamError(503), b: 'ok' });
+    await pool.run('m', request);
+    await pool.run('m', request);
+    await sleep(60);
+    await pool.run('m', request);
+    assert.deepEqual(circuits(pool), ['open', 'closed']);
+  });
+
+  it('lets one request at a time test a half open backend', async () => {
+    let release!: () => void;
+    const { pool, calls, request, outcomes } = createPool({ a: new SeaLionUpstreamError(503), b: 'ok' });
+    await pool.run('m', request);
+    await pool.run('m', request);
+    await sleep(60);
+
+    outcomes.a = () => new Promise(resolve => { release = () => resolve('probe'); });
+    calls.length = 0;
+    const probe = pool.run('m', request);
+    const others = await Promise.all([pool.run('m', request), pool.run('m', request)]);
+    assert.deepEqual(others.map(other => other.backend), ['b', 'b']);
+    assert.deepEqual(calls, ['a', 'b', 'b']);
+
+    release();
+    assert.deepEqual(await probe, { result: 'probe', backend: 'a' });
+    assert.deepEqual(circuits(pool), ['closed', 'closed']);
+  });
+
+  it('tries the backend whose cooldown ends first when every circuit is open', async () => {
+    const { pool, calls, request, outcomes } = createPool({ a: new SeaLionUpstreamError(503), b: new SeaLionUpstreamError(503) }, 10_000);
+    await assert.rejects(pool.run('m', request));
+    await assert.rejects(pool.run('m', request));
+    assert.deepEqual(circuits(pool), ['open', 'open']);
+
+    outcomes.b = 'ok';
+    calls.length = 0;
+    await assert.rejects(pool.run('m', request));
+    assert.deepEqual(calls, ['a']);
+    assert.deepEqual(circuits(pool), ['open', 'open']);
+  });
+
+  it('refuses other requests while the only backend is being tested', async () => {
+    let release!: () => void;
+    const { pool, request, outcomes } = createPool({ a: new SeaLionUpstreamError(503) });
+    await assert.rejects(pool.run('m', request));
+    await assert.rejects(pool.run('m', request));
+
+    outcomes.a = () => new Promise(resolve => { release = () => resolve('probe'); });
+    const probe = pool.run('m', request);
+    await assert.rejects(pool.run('m', request), (error: SeaLionError) => error.retryable && /recovering/.test(error.message));
+    release();
+    assert.equal((await probe).result, 'probe');
+  });
+});
+
+describe('recordBackends', () => {
+  it('adds each backend once', () => {
+    const metadata: ToolResultMetadata = {};
+    recordBackends(metadata, ['a']);
+    recordBackends(metadata, ['b', 'a']);
+    recordBackends(metadata, []);
+    recordBackends(undefined, ['c']);
+    assert.deepEqual(metadata.backends, ['a', 'b']);
+  });
+});
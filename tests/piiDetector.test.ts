@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  PiiRedaction,
+  detectPii,
+  getRedactionTypesFromEnv,
+  isValidCardNumber,
+  isValidMyKad,
+  isValidNik,
+  isValidNric,
+  isValidThaiId
+} from '../src/services/piiDetector.js';
+
+describe('isValidNric', () => {
+  it('accepts the right check letter for each prefix', () => {
+    for (const id of ['S1234567D', 'T1234567J', 'F1234567N', 'G1234567X', 'M1234567K', 's1234567d']) {
+      assert.ok(isValidNric(id), id);
+    }
+  });
+
+  it('rejects a wrong check letter', () => {
+    for (const id of ['S1234567A', 'T1234567D', 'F1234567D', 'M1234567X']) {
+      assert.ok(!isValidNric(id), id);
+    }
+  });
+});
+
+describe('isValidThaiId', () => {
+  it('checks the final digit, ignoring separators', () => {
+    assert.ok(isValidThaiId('1101700230708'));
+    assert.ok(isValidThaiId('1-1017-00230-70-8'));
+    assert.ok(!isValidThaiId('1101700230709'));
+  });
+
+  it('rejects numbers of the wrong length or starting with 0', () => {
+    assert.ok(!isValidThaiId('110170023070'));
+    assert.ok(!isValidThaiId('0101700230700'));
+  });
+});
+
+describe('isValidMyKad', () => {
+  it('accepts a valid birth date and place code', () => {
+    assert.ok(isValidMyKad('900101-14-5678'));
+    assert.ok(isValidMyKad('000229105678'));
+  });
+
+  it('rejects impossible dates and unused place codes', () => {
+    assert.ok(!isValidMyKad('901301-14-5678'));
+    assert.ok(!isValidMyKad('900431-14-5678'));
+    assert.ok(!isValidMyKad('900101-17-5678'));
+    assert.ok(!isValidMyKad('900101-00-5678'));
+    assert.ok(!isValidMyKad('90010114567'));
+  });
+});
+
+describe('isValidNik', () => {
+  it('accepts a valid province and birth date, including the women\'s day offset', () => {
+    assert.ok(isValidNik('3171011201900001'));
+    assert.ok(isValidNik('3171015201900001'));
+  });
+
+  it('rejects unknown provinces, impossible dates and a zero serial', () => {
+    assert.ok(!isValidNik('2071011201900001'));
+    assert.ok(!isValidNik('3171013201900001'));
+    assert.ok(!isValidNik('3171011213900001'));
+    assert.ok(!isValidNik('3171011201900000'));
+    assert.ok(!isValidNik('317101120190001'));
+  });
+});
+
+describe('isValidCardNumber', () => {
+  it('applies the Luhn checksum', () => {
+    assert.ok(isValidCardNumber('4111 1111 1111 1111'));
+    assert.ok(isValidCardNumber('5500-0000-0000-0004'));
+    assert.ok(!isValidCardNumber('4111111111111112'));
+  });
+
+  it('rejects numbers outside 13 to 19 digits', () => {
+    assert.ok(!isValidCardNumber('424242424242'));
+    assert.ok(!isValidCardNumber('42424242424242424242'));
+  });
+});
+
+describe('detectPii', () => {
+  it('finds only entities that validate, in text order', () => {
+    const text = 'Mail a.b@example.sg, NRIC S1234567D, not S1234567A, card 4111 1111 1111 1111, call +65 9123 4567.';
+    assert.deepEqual(detectPii(text).map(entity => [entity.type, entity.value]), [
+      ['email', 'a.b@example.sg'],
+      ['sg_nric', 'S1234567D'],
+      ['credit_card', '4111 1111 1111 1111'],
+      ['sg_phone', '+65 9123 4567']
+    ]);
+  });
+
+  it('limits detection to the requested types', () => {
+    assert.deepEqual(detectPii('S1234567D a@b.co', ['email']).map(entity => entity.type), ['email']);
+  });
+});
+
+describe('PiiRedaction', () => {
+  it('reuses placeholders and restores the original values', () => {
+    const redaction = new PiiRedaction();
+    const redacted = redaction.redact('Email a@b.co or a@b.co, ID S1234567D');
+    assert.equal(redacted, 'Email [EMAIL_1] or [EMAIL_1], ID [SG_NRIC_1]');
+    assert.equal(redaction.count, 2);
+    assert.equal(redaction.restore('Contact [EMAIL_1] ([SG_NRIC_1]) [OTHER_1]'), 'Contact a@b.co (S1234567D) [OTHER_1]');
+    assert.deepEqual(redaction.findMissing('only [EMAIL_1]'), ['[SG_NRIC_1]']);
+  });
+
+  it('holds back a placeholder cut off at the end of a stream', () => {
+    const redaction = new PiiRedaction();
+    redaction.redact('a@b.co');
+    assert.equal(redaction.restorePartial('Hi [EMAIL_1], and [EMA'), 'Hi a@b.co, and ');
+  });
+});
+
+describe('getRedactionTypesFromEnv', () => {
+  it('reads whether redaction is on and which types it covers', () => {
+    assert.equal(getRedactionTypesFromEnv({}), undefined);
+    assert.equal(getRedactionTypesFromEnv({ SEALION_PII_REDACTION: 'off' }), undefined);
+    assert.equal(getRedactionTypesFromEnv({ SEALION_PII_REDACTION: 'on' })?.length, 9);
+    assert.deepEqual(getRedactionTypesFromEnv({ SEALION_PII_REDACTION: 'on', SEALION_PII_TYPES: 'Email, sg_nric' }), ['email', 'sg_nric']);
+    assert.throws(() => getRedactionTypesFromEnv({ SEALION_PII_REDACTION: 'on', SEALION_PII_TYPES: 'passport' }), /Unknown PII types/);
+  });
+});
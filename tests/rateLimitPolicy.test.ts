@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { RateLimitExceededError, RateLimitPolicy, RateLimitPolicyOptions } from '../src/services/rateLimitPolicy.js';
+import { TokenBucket } from '../src/utils/rateLimiter.js';
+import { ClientAuthenticator } from '../src/services/clientAuth.js';
+
+function createPolicy(options: Partial<RateLimitPolicyOptions> = {}): RateLimitPolicy {
+  return new RateLimitPolicy({
+    global: { maxRequests: 4, windowMs: 60_000 },
+    queueSize: 2,
+    maxWaitMs: 1000,
+    defaultMode: 'reject',
+    ...options
+  });
+}
+
+/**
+ * Acquire and report which scope rejected the call, if any
+ */
+function attempt(policy: RateLimitPolicy, request: Parameters<RateLimitPolicy['acquire']>[0]): Promise<string> {
+  return policy.acquire(request).then(() => 'ok', error => error instanceof RateLimitExceededError ? error.scope : String(error));
+}
+
+describe('TokenBucket', () => {
+  it('takes tokens by cost and refuses calls it cannot cover', () => {
+    const bucket = new TokenBucket(5, 60_000);
+    assert.ok(bucket.allowRequest(4));
+    assert.equal(bucket.getRemainingRequests(), 1);
+    assert.ok(!bucket.wouldAllowRequest(2));
+    assert.ok(!bucket.allowRequest(2));
+    assert.equal(bucket.getRemainingRequests(), 1);
+    assert.ok(bucket.allowRequest());
+  });
+
+  it('refills over the window and reports the wait for a cost', async () => {
+    const bucket = new TokenBucket(2, 100);
+    bucket.allowRequest(2);
+    assert.ok(bucket.getTimeUntilReset(1) > 0 && bucket.getTimeUntilReset(1) <= 50);
+    assert.ok(bucket.getTimeUntilReset(2) > 50 && bucket.getTimeUntilReset(2) <= 100);
+    await sleep(110);
+    assert.ok(bucket.isFull());
+    assert.equal(bucket.getRemainingRequests(), 2);
+  });
+
+  it('charges a full bucket for a call costing more than the capacity', () => {
+    const bucket = new TokenBucket(3, 60_000);
+    assert.ok(bucket.allowRequest(10));
+    assert.equal(bucket.getRemainingRequests(), 0);
+  });
+});
+
+describe('RateLimitPolicy', () => {
+  it('weights calls by cost against the global bucket', async () => {
+    const policy = createPolicy();
+    assert.equal(await attempt(policy, { cost: 3, owner: 'a' }), 'ok');
+    assert.equal(await attempt(policy, { cost: 2, owner: 'b' }), 'global');
+    assert.equal(await attempt(policy, { cost: 1, owner: 'b' }), 'ok');
+  });
+
+  it('reports how long to wait when rejecting', async () => {
+    const policy = createPolicy({ global: { maxRequests: 1, windowMs: 10_000 } });
+    await policy.acquire({ cost: 1, owner: 'a' });
+    await assert.rejects(policy.acquire({ cost: 1, owner: 'a' }), (error: RateLimitExceededError) =>
+      error.scope === 'global' && error.retryAfterMs > 9000 && /Retry after 10 seconds/.test(error.message));
+  });
+
+  it('gives each owner a session bucket of its own', async () => {
+    const policy = createPolicy({ global: { maxRequests: 100, windowMs: 60_000 }, session: { maxRequests: 2, windowMs: 60_000 } });
+    assert.equal(await attempt(policy, { cost: 2, owner: 'a' }), 'ok');
+    assert.equal(await attempt(policy, { cost: 1, owner: 'a' }), 'session');
+    assert.equal(await attempt(policy, { cost: 2, owner: 'b' }), 'ok');
+  });
+
+  it('applies the client limiter and consumes from every bucket or none', async () => {
+    const client = new TokenBucket(2, 60_000);
+    const policy = createPolicy();
+    assert.equal(await attempt(policy, { cost: 2, owner: 'a', clientLimiter: client }), 'ok');
+    assert.equal(await attempt(policy, { cost: 1, owner: 'a', clientLimiter: client }), 'client');
+    // The refused call took nothing from the global bucket
+    assert.equal(await attempt(policy, { cost: 2, owner: 'b' }), 'ok');
+  });
+
+  it('weights calls by cost against a key\'s rate limit', async () => {
+    const token = 'client-token-0123456789';
+    const auth = new ClientAuthenticator([
+      { name: 'bot', token, tools: ['*'], rate_limit: { max_requests: 5, window_ms: 60_000 } }
+    ]);
+    const clientLimiter = auth.authenticate(token)?.rateLimiter;
+    const policy = createPolicy({ global: { maxRequests: 100, windowMs: 60_000 } });
+
+    assert.equal(await attempt(policy, { cost: 4, owner: 'a', clientLimiter }), 'ok');
+    assert.equal(clientLimiter?.getRemainingRequests(), 1);
+    assert.equal(await attempt(policy, { cost: 2, owner: 'a', clientLimiter }), 'client');
+    assert.equal(await attempt(policy, { cost: 1, owner: 'a', clientLimiter }), 'ok');
+  });
+
+  it('counts free calls against session and client limits but not the global bucket', async () => {
+    const client = new TokenBucket(2, 60_000);
+    const policy = createPolicy({ global: { maxRequests: 1, windowMs: 60_000 } });
+    assert.equal(await attempt(policy, { cost: 0, owner: 'a', clientLimiter: client }), 'ok');
+    assert.equal(await attempt(policy, { cost: 0, owner: 'a', clientLimiter: client }), 'ok');
+    assert.equal(await attempt(policy, { cost: 0, owner: 'a', clientLimiter: client }), 'client');
+    assert.equal(await attempt(policy, { cost: 1, owner: 'b' }), 'ok');
+  });
+
+  it('waits for tokens when asked to', async () => {
+    const policy = createPolicy({ global: { maxRequests: 2, windowMs: 100 } });
+    await policy.acquire({ cost: 2, owner: 'a' });
+    const started = Date.now();
+    await policy.acquire({ cost: 1, owner: 'a', mode: 'wait' });
+    assert.ok(Date.now() - started >= 40);
+  });
+
+  it('serves queued calls in order, ahead of new calls', async () => {
+    const policy = createPolicy({ global: { maxRequests: 2, windowMs: 200 } });
+    await policy.acquire({ cost: 2, owner: 'a' });
+    const order: string[] = [];
+    const first = policy.acquire({ cost: 2, owner: 'a', mode: 'wait' }).then(() => order.push('first'));
+    const second = policy.acquire({ cost: 1, owner: 'b', mode: 'wait' }).then(() => order.push('second'));
+
+    await sleep(120);
+    // A token is back, but the queued calls are waiting for it
+    assert.equal(await attempt(policy, { cost: 1, owner: 'c' }), 'global');
+    await Promise.all([first, second]);
+    assert.deepEqual(order, ['first', 'second']);
+  });
+
+  it('rejects a call that would wait longer than the maximum', async () => {
+    const policy = createPolicy({ global: { maxRequests: 1, windowMs: 60_000 }, maxWaitMs: 50 });
+    await policy.acquire({ cost: 1, owner: 'a' });
+    assert.equal(await attempt(policy, { cost: 1, owner: 'a', mode: 'wait' }), 'global');
+  });
+
+  it('rejects calls once the wait queue is full', async () => {
+    const policy = createPolicy({ global: { maxRequests: 1, windowMs: 200 }, queueSize: 1 });
+    await policy.acquire({ cost: 1, owner: 'a' });
+    const queued = policy.acquire({ cost: 1, owner: 'a', mode: 'wait' });
+    await assert.rejects(policy.acquire({ cost: 1, owner: 'b', mode: 'wait' }), /wait queue is full/);
+    await queued;
+  });
+
+  it('stops waiting when the call is cancelled', async () => {
+    const policy = createPolicy({ global: { maxRequests: 1, windowMs: 500 } });
+    await policy.acquire({ cost: 1, owner: 'a' });
+    const controller = new AbortController();
+    const queued = policy.acquire({ cost: 1, owner: 'a', mode: 'wait', signal: controller.signal });
+    controller.abort();
+    await assert.rejects(queued, { name: 'AbortError' });
+  });
+});
@@ -0,0 +1,73 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { SeaLionClient } from '../src/services/sealionClient.js';
+import { ToolResultMetadata } from '../src/types/index.js';
+
+let server: http.Server;
+let requests = 0;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      requests++;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({
+        id: 'x',
+        object: 'chat.completion',
+        created: 1,
+        model: 'm',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: `answer ${requests}` } }]
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  Object.assign(process.env, {
+    SEALION_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+    SEALION_API_KEY: 'test',
+    SEALION_CACHE: 'memory',
+    SEALION_MAX_RETRIES: '0'
+  });
+});
+
+after(() => {
+  server.close();
+});
+
+describe('SeaLionClient response cache', () => {
+  const params = (temperature: number) => ({
+    model: 'aisingapore/Gemma-SEA-LION-v3-9B-IT',
+    messages: [{ role: 'user' as const, content: `Hello at ${temperature}` }],
+    temperature
+  });
+
+  it('does not cache sampled calls', async () => {
+    const client = new SeaLionClient();
+    const metadata: ToolResultMetadata = {};
+    const first = await client.generateText(params(0.7), { metadata });
+    const second = await client.generateText(params(0.7));
+    assert.notEqual(first, second);
+    assert.equal(metadata.cache, 'bypass');
+  });
+
+  it('caches deterministic calls', async () => {
+    const client = new SeaLionClient();
+    const first = await client.generateText(params(0));
+    const metadata: ToolResultMetadata = {};
+    assert.equal(await client.generateText(params(0), { metadata }), first);
+    assert.equal(metadata.cache, 'hit');
+  });
+
+  it('caches sampled calls when the tool opts in, unless the caller bypasses the cache', async () => {
+    const client = new SeaLionClient();
+    const first = await client.generateText(params(0.3), { cacheable: true });
+    assert.equal(await client.generateText(params(0.3), { cacheable: true }), first);
+    assert.notEqual(await client.generateText(params(0.3), { cacheable: true, cache: 'bypass' }), first);
+
+    const refreshed = await client.generateText(params(0.3), { cacheable: true, cache: 'refresh' });
+    assert.notEqual(refreshed, first);
+    assert.equal(await client.generateText(params(0.3), { cacheable: true }), refreshed);
+  });
+});
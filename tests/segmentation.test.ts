@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkText, estimateTokens, splitSentences, takeLastTokens } from '../src/utils/segmentation.js';
+
+describe('splitSentences', () => {
+  it('joins back into the original text', () => {
+    const texts = [
+      'First sentence. Second one!  Third?\n\nNew paragraph "quoted." End',
+      'สวัสดีครับ วันนี้อากาศดี ไปเที่ยวกันไหม',
+      '今天天气很好。我们去公园吧！好吗？',
+      'ថ្ងៃនេះ។ ស្អែក។',
+      ''
+    ];
+    for (const text of texts) {
+      assert.equal(splitSentences(text).join(''), text);
+    }
+  });
+
+  it('splits on Latin punctuation followed by whitespace', () => {
+    assert.deepEqual(splitSentences('One. Two! Three? Four'), ['One. ', 'Two! ', 'Three? ', 'Four']);
+  });
+
+  it('does not split decimals or words without whitespace after the stop', () => {
+    assert.deepEqual(splitSentences('It costs 3.50 dollars.'), ['It costs 3.50 dollars.']);
+  });
+
+  it('splits Chinese on full-width stops and Thai on spaces between phrases', () => {
+    assert.deepEqual(splitSentences('你好。再见！'), ['你好。', '再见！']);
+    assert.deepEqual(splitSentences('สวัสดี ขอบคุณ'), ['สวัสดี ', 'ขอบคุณ']);
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts scripts without spaces as denser than Latin text', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.ok(estimateTokens('สวัสดีครับ') > estimateTokens('helloworld'));
+  });
+});
+
+describe('chunkText', () => {
+  it('returns a single chunk for short text, keeping surrounding whitespace apart', () => {
+    assert.deepEqual(chunkText('\n  Hello world.  \n', 100), [{ leading: '\n  ', text: 'Hello world.', trailing: '  \n' }]);
+  });
+
+  it('returns no chunks for empty text', () => {
+    assert.deepEqual(chunkText('', 100), []);
+  });
+
+  it('rebuilds the original text and keeps every chunk within the budget', () => {
+    const paragraph = 'The quick brown fox jumps over the lazy dog. It was not amused by the fox at all. ';
+    const text = `${paragraph.repeat(4)}\n\n${paragraph.repeat(3)}\n\n${paragraph.repeat(5)}`;
+    const chunks = chunkText(text, 60);
+
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks.map(chunk => chunk.leading + chunk.text + chunk.trailing).join(''), text);
+    for (const chunk of chunks) {
+      assert.ok(estimateTokens(chunk.text) <= 60, `chunk over budget: ${chunk.text}`);
+    }
+  });
+
+  it('cuts an over-long sentence at word boundaries', () => {
+    const text = 'word '.repeat(200).trim();
+    const chunks = chunkText(text, 20);
+
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks.map(chunk => chunk.leading + chunk.text + chunk.trailing).join(''), text);
+    for (const chunk of chunks) {
+      assert.match(chunk.text, /^word( word)*$/);
+    }
+  });
+
+  it('cuts Thai text without splitting words', () => {
+    const text = 'ภาษาไทยเป็นภาษาที่สวยงาม'.repeat(20);
+    const chunks = chunkText(text, 30);
+
+    assert.ok(chunks.length > 1);
+    assert.equal(chunks.map(chunk => chunk.leading + chunk.text + chunk.trailing).join(''), text);
+  });
+});
+
+describe('takeLastTokens', () => {
+  it('keeps whole sentences from the end', () => {
+    assert.equal(takeLastTokens('First sentence here. Second sentence here. Third one.', 12), 'Second sentence here. Third one.');
+  });
+
+  it('falls back to the final words of an over-long last sentence', () => {
+    const result = takeLastTokens('alpha beta gamma delta epsilon zeta eta theta', 4);
+    assert.ok(result.length > 0);
+    assert.ok('alpha beta gamma delta epsilon zeta eta theta'.endsWith(result));
+    assert.ok(estimateTokens(result) <= 4);
+  });
+
+  it('returns the whole text when it fits', () => {
+    assert.equal(takeLastTokens('  Short text.  ', 100), 'Short text.');
+  });
+});
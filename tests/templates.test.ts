@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { findTemplateProblems, renderTemplate } from '../src/utils/templates.js';
+import { ToolPromptStore } from '../src/services/toolPrompts.js';
+
+describe('renderTemplate', () => {
+  it('inserts variables and leaves missing ones empty', () => {
+    assert.equal(renderTemplate('Translate to {{ language }}{{missing}}.', { language: 'Thai' }), 'Translate to Thai.');
+  });
+
+  it('keeps sections by whether their variable is set', () => {
+    const template = '{{#formal}}Be formal.{{/formal}}{{^formal}}Be casual.{{/formal}}';
+    assert.equal(renderTemplate(template, { formal: true }), 'Be formal.');
+    assert.equal(renderTemplate(template, { formal: false }), 'Be casual.');
+    assert.equal(renderTemplate(template, { formal: '' }), 'Be casual.');
+    assert.equal(renderTemplate(template, {}), 'Be casual.');
+    assert.equal(renderTemplate(template, { formal: 'yes' }), 'Be formal.');
+  });
+
+  it('resolves nested sections', () => {
+    const template = '{{#a}}A{{#b}}B{{/b}}{{^b}}-{{/b}}{{/a}}';
+    assert.equal(renderTemplate(template, { a: true, b: true }), 'AB');
+    assert.equal(renderTemplate(template, { a: true }), 'A-');
+    assert.equal(renderTemplate(template, { b: true }), '');
+  });
+
+  it('does not expand tags inside inserted values', () => {
+    assert.equal(renderTemplate('Text: {{text}}', { text: '{{secret}}{{#a}}x{{/a}}', secret: 'leaked', a: true }),
+      'Text: {{secret}}{{#a}}x{{/a}}');
+  });
+});
+
+describe('findTemplateProblems', () => {
+  it('accepts a template using only declared variables', () => {
+    assert.deepEqual(findTemplateProblems('{{#a}}{{b}}{{/a}}', ['a', 'b']), []);
+  });
+
+  it('reports unknown variables once each', () => {
+    assert.deepEqual(findTemplateProblems('{{x}} {{x}} {{#y}}{{/y}}', []), ['Unknown variable: x', 'Unknown variable: y']);
+  });
+
+  it('reports unbalanced sections', () => {
+    assert.deepEqual(findTemplateProblems('{{#a}}open', ['a']), ['Unbalanced section tags']);
+    assert.deepEqual(findTemplateProblems('{{#a}}x{{/b}}', ['a', 'b']), ['Unbalanced section tags']);
+  });
+});
+
+describe('ToolPromptStore', () => {
+  it('overrides the glossary correction prompt for one target language', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'sealion-prompts-'));
+    try {
+      const file = path.join(directory, 'prompts.json');
+      await writeFile(file, JSON.stringify({
+        templates: [{ id: 'translation.glossary_retry', version: 'th-2', language: 'thai', text: 'Fix these terms:\n{{violations}}' }]
+      }));
+      const store = new ToolPromptStore(file);
+      const variables = { violations: '- "API" must be kept untranslated' };
+
+      assert.deepEqual(store.render('translation.glossary_retry', variables, { language: 'thai' }), {
+        id: 'translation.glossary_retry',
+        version: 'th-2',
+        text: 'Fix these terms:\n- "API" must be kept untranslated'
+      });
+      assert.match(store.render('translation.glossary_retry', variables, { language: 'malay' }).text, /^Your translation does not follow/);
+      assert.deepEqual(store.versions(['translation.user', 'translation.glossary_retry'], { language: 'thai' }), {
+        'translation.user': 'builtin-1',
+        'translation.glossary_retry': 'th-2'
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
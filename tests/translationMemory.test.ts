@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { TranslationMemory, getMemoryOwner } from '../src/services/translationMemory.js';
+import { GlossaryStore } from '../src/services/glossary.js';
+import { ToolPromptStore } from '../src/services/toolPrompts.js';
+import { createTranslationTool } from '../src/tools/translation.js';
+
+const OWNER = getMemoryOwner();
+
+let directory: string;
+let filePath: string;
+let memory: TranslationMemory;
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'sealion-tm-'));
+  filePath = path.join(directory, 'memory.json');
+  memory = new TranslationMemory(filePath, { fuzzyThreshold: 75, autoRecord: false });
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('TMX', () => {
+  it('round-trips units through export and import', async () => {
+    await memory.add(OWNER, {
+      source_language: 'english',
+      target_language: 'indonesian',
+      source: 'Fish & chips <tonight>',
+      target: 'Ikan & kentang "malam ini"'
+    }, 'curated');
+    await memory.add(OWNER, {
+      source_language: 'english',
+      target_language: 'thai',
+      source: 'Thank you',
+      target: 'ขอบคุณ',
+      variant: '{"model":"v3"}'
+    }, 'model');
+
+    const tmx = await memory.exportTmx(OWNER);
+    const copy = new TranslationMemory(path.join(directory, 'copy.json'));
+    assert.deepEqual(await copy.importTmx(OWNER, tmx), { imported: 2, skipped: 0 });
+
+    const strip = (units: Array<{ unit: object }>) => units.map(({ unit }) => unit);
+    for (const [language, text] of [['indonesian', 'Fish & chips <tonight>'], ['thai', 'Thank you']] as const) {
+      const original = strip(await memory.search(OWNER, 'english', language, text));
+      const imported = strip(await copy.search(OWNER, 'english', language, text));
+      assert.equal(imported.length, 1);
+      assert.deepEqual(
+        imported.map(unit => ({ ...unit, created_at: undefined, updated_at: undefined })),
+        original.map(unit => ({ ...unit, created_at: undefined, updated_at: undefined }))
+      );
+    }
+    const withoutDates = (text: string) => text.replace(/(creation|change)date="[^"]*"/g, '');
+    assert.equal(withoutDates(await copy.exportTmx(OWNER)), withoutDates(tmx));
+  });
+
+  it('imports every target variant and skips unsupported languages', async () => {
+    const tmx = `<?xml version="1.0"?>
+<tmx version="1.4"><header srclang="en-US"/><body>
+  <tu creationdate="20240102T030405Z">
+    <tuv xml:lang="en-US"><seg>Good <bpt i="1">&lt;b&gt;</bpt>morning<ept i="1">&lt;/b&gt;</ept></seg></tuv>
+    <tuv xml:lang="ms"><seg>Selamat pagi</seg></tuv>
+    <tuv xml:lang="vi"><seg>Chào buổi sáng</seg></tuv>
+    <tuv xml:lang="de"><seg>Guten Morgen</seg></tuv>
+  </tu>
+  <tu><tuv xml:lang="en"><seg>Only a source</seg></tuv></tu>
+</body></tmx>`;
+
+    assert.deepEqual(await memory.importTmx(OWNER, tmx), { imported: 2, skipped: 2 });
+    const [match] = await memory.search(OWNER, 'english', 'malay', 'Good morning');
+    assert.equal(match.unit.target, 'Selamat pagi');
+    assert.equal(match.unit.origin, 'curated');
+    assert.equal(match.unit.created_at, '2024-01-02T03:04:05.000Z');
+    assert.equal((await memory.search(OWNER, 'english', 'vietnamese', 'Good morning')).length, 1);
+  });
+
+  it('exports only the owner\'s units for the requested languages', async () => {
+    await memory.add(OWNER, { source_language: 'english', target_language: 'malay', source: 'Yes', target: 'Ya' }, 'curated');
+    await memory.add(OWNER, { source_language: 'english', target_language: 'thai', source: 'Yes', target: 'ใช่' }, 'curated');
+    await memory.add(getMemoryOwner('other'), { source_language: 'english', target_language: 'malay', source: 'No', target: 'Tidak' }, 'curated');
+
+    const tmx = await memory.exportTmx(OWNER, { target_language: 'malay' });
+    assert.equal(tmx.match(/<tu /g)?.length, 1);
+    assert.match(tmx, /<seg>Ya<\/seg>/);
+  });
+});
+
+describe('search', () => {
+  beforeEach(async () => {
+    await memory.add(OWNER, {
+      source_language: 'english',
+      target_language: 'indonesian',
+      source: 'Please close the door when you leave',
+      target: 'Tolong tutup pintu saat kamu pergi'
+    }, 'curated');
+  });
+
+  it('scores an exact match 100 regardless of case and spacing', async () => {
+    const [match] = await memory.search(OWNER, 'english', 'indonesian', '  please close the  door when you LEAVE ');
+    assert.equal(match.score, 100);
+  });
+
+  it('scores a close match below 100 and drops distant ones', async () => {
+    const [close] = await memory.search(OWNER, 'english', 'indonesian', 'Please close the window when you leave');
+    assert.ok(close.score >= 75 && close.score < 100, `score ${close.score}`);
+    assert.deepEqual(await memory.search(OWNER, 'english', 'indonesian', 'The weather is lovely'), []);
+    assert.equal((await memory.search(OWNER, 'english', 'indonesian', 'The weather is lovely', { minScore: 0 })).length, 1);
+  });
+
+  it('ranks better matches first and honours the limit', async () => {
+    await memory.add(OWNER, {
+      source_language: 'english',
+      target_language: 'indonesian',
+      source: 'Please close the window when you leave',
+      target: 'Tolong tutup jendela saat kamu pergi'
+    }, 'curated');
+
+    const matches = await memory.search(OWNER, 'english', 'indonesian', 'Please close the window when you leave', { minScore: 50 });
+    assert.deepEqual(matches.map(match => match.score)[0], 100);
+    assert.ok(matches[0].score > matches[1].score);
+    assert.equal((await memory.search(OWNER, 'english', 'indonesian', 'Please close the window', { minScore: 0, limit: 1 })).length, 1);
+  });
+
+  it('keeps language pairs and owners apart', async () => {
+    const text = 'Please close the door when you leave';
+    assert.deepEqual(await memory.search(OWNER, 'english', 'malay', text), []);
+    assert.deepEqual(await memory.search(getMemoryOwner('other'), 'english', 'indonesian', text), []);
+  });
+});
+
+describe('lookup', () => {
+  it('serves model translations only for the same variant and prefers curated units', async () => {
+    const entry = { source_language: 'english', target_language: 'malay', source: 'Hello' } as const;
+    await memory.add(OWNER, { ...entry, target: 'Hai', variant: 'casual' }, 'model');
+
+    assert.equal((await memory.lookup(OWNER, 'english', 'malay', 'Hello', 'casual'))?.target, 'Hai');
+    assert.equal(await memory.lookup(OWNER, 'english', 'malay', 'Hello', 'formal'), undefined);
+
+    await memory.add(OWNER, { ...entry, target: 'Helo' }, 'curated');
+    assert.equal((await memory.lookup(OWNER, 'english', 'malay', 'Hello', 'casual'))?.target, 'Helo');
+    assert.equal((await memory.lookup(OWNER, 'english', 'malay', 'Hello', 'formal'))?.target, 'Helo');
+  });
+
+  it('keeps the last units when the file becomes unreadable', async () => {
+    await memory.add(OWNER, { source_language: 'english', target_language: 'malay', source: 'Hi', target: 'Hai' }, 'curated');
+    await writeFile(filePath, '{ not json', 'utf8');
+
+    const [match] = await memory.search(OWNER, 'english', 'malay', 'Hi');
+    assert.equal(match.unit.target, 'Hai');
+    await assert.rejects(
+      memory.add(OWNER, { source_language: 'english', target_language: 'malay', source: 'Bye', target: 'Selamat tinggal' }, 'curated'),
+      /not changing it/
+    );
+    assert.equal(await readFile(filePath, 'utf8'), '{ not json');
+  });
+});
+
+describe('sealion_translate recording', () => {
+  const client = { generateText: async () => 'Terima kasih' };
+
+  async function translate(args: Record<string, unknown>): Promise<Record<string, any>> {
+    const tool = createTranslationTool(new GlossaryStore(directory), memory, new ToolPromptStore());
+    const metadata: Record<string, any> = {};
+    await tool.handler(
+      tool.inputSchema.parse({ text: 'Thank you', source_language: 'english', target_language: 'indonesian', ...args }),
+      client,
+      { metadata }
+    );
+    return metadata.translation_memory;
+  }
+
+  it('records a translation only when the call approves it', async () => {
+    assert.equal((await translate({})).recorded, false);
+    assert.deepEqual(await memory.search(OWNER, 'english', 'indonesian', 'Thank you'), []);
+
+    assert.equal((await translate({ record: true })).recorded, true);
+    const [match] = await memory.search(OWNER, 'english', 'indonesian', 'Thank you');
+    assert.equal(match.unit.origin, 'model');
+  });
+
+  it('lets a call opt out of automatic recording', async () => {
+    memory = new TranslationMemory(filePath, { fuzzyThreshold: 75, autoRecord: true });
+
+    assert.equal((await translate({ record: false })).recorded, false);
+    assert.equal((await translate({})).recorded, true);
+  });
+});
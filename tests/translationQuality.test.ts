@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assessTranslationQuality, computeChrF, computeTokenOverlap } from '../src/services/translationQuality.js';
+
+describe('computeChrF', () => {
+  it('scores identical texts 1, ignoring case and whitespace', () => {
+    assert.equal(computeChrF('Hello world', 'hello   world'), 1);
+    assert.equal(computeChrF('helloworld', 'Hello world'), 1);
+  });
+
+  it('scores texts without shared characters 0', () => {
+    assert.equal(computeChrF('abc', 'xyz'), 0);
+  });
+
+  it('handles empty texts', () => {
+    assert.equal(computeChrF('', ''), 1);
+    assert.equal(computeChrF('', 'text'), 0);
+    assert.equal(computeChrF('text', ''), 0);
+  });
+
+  it('handles texts shorter than the longest n-gram', () => {
+    assert.equal(computeChrF('ab', 'ab'), 1);
+    const score = computeChrF('ab', 'abc');
+    assert.ok(score > 0 && score < 1);
+  });
+
+  it('weighs recall over precision', () => {
+    const reference = 'the cat sat on the mat';
+    assert.ok(computeChrF('the cat sat on the mat today', reference) > computeChrF('the cat sat', reference));
+  });
+
+  it('scores a closer text higher', () => {
+    const reference = 'The weather is nice today';
+    assert.ok(computeChrF('The weather is good today', reference) > computeChrF('It rains a lot', reference));
+  });
+});
+
+describe('computeTokenOverlap', () => {
+  it('is 1 for the same words in any order and case', () => {
+    assert.equal(computeTokenOverlap('Cat sat on mat', 'mat on sat cat'), 1);
+  });
+
+  it('computes the F1 of shared words', () => {
+    // 2 shared words out of 4 and 2: precision 0.5, recall 1
+    assert.equal(computeTokenOverlap('a b c d', 'a b').toFixed(4), (2 / 3).toFixed(4));
+  });
+
+  it('counts repeated words only as often as both texts have them', () => {
+    assert.equal(computeTokenOverlap('go go go', 'go').toFixed(4), (0.5).toFixed(4));
+  });
+
+  it('handles texts without words', () => {
+    assert.equal(computeTokenOverlap('', '...'), 1);
+    assert.equal(computeTokenOverlap('word', ''), 0);
+  });
+});
+
+describe('assessTranslationQuality', () => {
+  it('gives a faithful back-translation a full score', () => {
+    const report = assessTranslationQuality('Good morning.', 'Selamat pagi.', 'Good morning.', 'indonesian');
+    assert.equal(report.score, 1);
+    assert.deepEqual(report.flagged_segments, []);
+    assert.deepEqual(report.warnings, []);
+  });
+
+  it('penalises a translation in the wrong script', () => {
+    const report = assessTranslationQuality('Good morning.', 'Good morning.', 'Good morning.', 'thai');
+    assert.ok(report.score < 1);
+    assert.equal(report.warnings.length, 1);
+  });
+
+  it('flags sentences that did not survive the round trip', () => {
+    const source = 'The meeting starts at nine. Please bring your laptop.';
+    const back = 'The meeting starts at nine. Bananas are yellow fruit.';
+    const report = assessTranslationQuality(source, 'x', back, 'english');
+    assert.deepEqual(report.flagged_segments.map(segment => segment.source), ['Please bring your laptop.']);
+  });
+});